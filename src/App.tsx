@@ -8,9 +8,17 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import ResourceViewer from "./pages/ResourceViewer";
 import Upload from "./pages/Upload";
 import Analytics from "./pages/Analytics";
+import ResourceAnalytics from "./pages/ResourceAnalytics";
 import Users from "./pages/Users";
+import Categories from "./pages/Categories";
+import Downloads from "./pages/Downloads";
+import Courses from "./pages/Courses";
+import CourseDetail from "./pages/CourseDetail";
+import Classes from "./pages/Classes";
+import ClassRoster from "./pages/ClassRoster";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -34,29 +42,99 @@ const App = () => (
               }
             />
             <Route
-              path="/upload"
+              path="/resources/:id"
               element={
-                <ProtectedRoute requireRole={["teacher", "admin"]}>
-                  <Upload />
+                <ProtectedRoute>
+                  <ResourceViewer />
+                </ProtectedRoute>
+              }
+            />
+            <Route path="/courses">
+              <Route
+                index
+                element={
+                  <ProtectedRoute>
+                    <Courses />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path=":id"
+                element={
+                  <ProtectedRoute>
+                    <CourseDetail />
+                  </ProtectedRoute>
+                }
+              />
+            </Route>
+            <Route path="/classes">
+              <Route
+                index
+                element={
+                  <ProtectedRoute>
+                    <Classes />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path=":id"
+                element={
+                  <ProtectedRoute>
+                    <ClassRoster />
+                  </ProtectedRoute>
+                }
+              />
+            </Route>
+            <Route
+              path="/downloads"
+              element={
+                <ProtectedRoute>
+                  <Downloads />
                 </ProtectedRoute>
               }
             />
             <Route
-              path="/analytics"
+              path="/upload"
               element={
-                <ProtectedRoute requireRole={["teacher", "admin"]}>
-                  <Analytics />
+                <ProtectedRoute requirePermission="resource.upload">
+                  <Upload />
                 </ProtectedRoute>
               }
             />
+            <Route path="/analytics">
+              <Route
+                index
+                element={
+                  <ProtectedRoute requirePermission="analytics.view">
+                    <Analytics />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="resources/:id"
+                element={
+                  <ProtectedRoute requirePermission="analytics.view">
+                    <ResourceAnalytics />
+                  </ProtectedRoute>
+                }
+              />
+            </Route>
             <Route
               path="/users"
               element={
-                <ProtectedRoute requireRole={["admin"]}>
+                <ProtectedRoute requirePermission="users.manage">
                   <Users />
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/categories"
+              element={
+                <ProtectedRoute requirePermission="category.manage">
+                  <Categories />
+                </ProtectedRoute>
+              }
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
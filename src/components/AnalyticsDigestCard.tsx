@@ -0,0 +1,51 @@
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useAnalyticsDigestPreference, useSetAnalyticsDigestPreference } from "@/hooks/use-analytics";
+import { Mail } from "lucide-react";
+
+// Opt in or out of the weekly email sent by the analytics-digest function
+export const AnalyticsDigestCard = () => {
+  const { toast } = useToast();
+  const { data: enabled, isLoading } = useAnalyticsDigestPreference();
+  const setPreference = useSetAnalyticsDigestPreference();
+
+  const handleToggle = (next: boolean) => {
+    setPreference.mutate(next, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: next ? "You will get the weekly digest" : "You will no longer get the weekly digest",
+        });
+      },
+      onError: (error) =>
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div className="flex items-start gap-3">
+          <Mail className="h-5 w-5 mt-0.5 text-muted-foreground" />
+          <div className="space-y-1">
+            <CardTitle className="text-base">Weekly email digest</CardTitle>
+            <CardDescription>
+              Views and downloads of your uploads over the past week, and which of them nobody opened
+            </CardDescription>
+          </div>
+        </div>
+        <Switch
+          checked={!!enabled}
+          onCheckedChange={handleToggle}
+          disabled={isLoading || setPreference.isPending}
+          aria-label="Weekly email digest"
+        />
+      </CardHeader>
+    </Card>
+  );
+};
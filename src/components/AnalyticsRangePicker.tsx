@@ -0,0 +1,86 @@
+import { addDays, format, startOfDay, subDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AnalyticsRange, RangePreset, TrendBucket, getPresetRange } from "@/hooks/use-analytics";
+import { CalendarIcon } from "lucide-react";
+
+interface AnalyticsRangePickerProps {
+  preset: RangePreset;
+  range: AnalyticsRange;
+  onRangeChange: (preset: RangePreset, range: AnalyticsRange) => void;
+  // The grouping select is left out without these
+  bucket?: TrendBucket;
+  onBucketChange?: (bucket: TrendBucket) => void;
+}
+
+export const AnalyticsRangePicker = ({
+  preset,
+  range,
+  bucket,
+  onRangeChange,
+  onBucketChange,
+}: AnalyticsRangePickerProps) => {
+  // The calendar works with inclusive days, the range with an exclusive end
+  const lastDay = subDays(range.end, 1);
+
+  const handlePresetChange = (next: RangePreset) =>
+    onRangeChange(next, next === "custom" ? range : getPresetRange(next));
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <Select value={preset} onValueChange={(value) => handlePresetChange(value as RangePreset)}>
+        <SelectTrigger className="w-full sm:w-40" aria-label="Date range">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="7d">Last 7 days</SelectItem>
+          <SelectItem value="30d">Last 30 days</SelectItem>
+          <SelectItem value="term">This term</SelectItem>
+          <SelectItem value="custom">Custom range</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {preset === "custom" && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="justify-start font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {format(range.start, "MMM d, yyyy")} – {format(lastDay, "MMM d, yyyy")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={range.start}
+              selected={{ from: range.start, to: lastDay }}
+              onSelect={(selected) => {
+                if (!selected?.from) return;
+                onRangeChange("custom", {
+                  start: startOfDay(selected.from),
+                  end: addDays(startOfDay(selected.to ?? selected.from), 1),
+                });
+              }}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {bucket && onBucketChange && (
+        <Select value={bucket} onValueChange={(value) => onBucketChange(value as TrendBucket)}>
+          <SelectTrigger className="w-full sm:w-32" aria-label="Group by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">By day</SelectItem>
+            <SelectItem value="week">By week</SelectItem>
+            <SelectItem value="month">By month</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AnalyticsScope, useAnalyticsScopeOptions } from "@/hooks/use-analytics";
+
+interface AnalyticsScopePickerProps {
+  value: AnalyticsScope;
+  onChange: (scope: AnalyticsScope) => void;
+}
+
+const toValue = (scope: AnalyticsScope) => {
+  switch (scope.type) {
+    case "teacher":
+      return `teacher:${scope.teacherId}`;
+    case "category":
+      return `category:${scope.categoryId}`;
+    default:
+      return scope.type;
+  }
+};
+
+const fromValue = (value: string): AnalyticsScope => {
+  const [type, id] = value.split(":");
+  if (type === "teacher") return { type, teacherId: id };
+  if (type === "category") return { type, categoryId: id };
+  return type === "all" ? { type: "all" } : { type: "mine" };
+};
+
+// Scope switcher for users who may see analytics beyond their own uploads
+export const AnalyticsScopePicker = ({ value, onChange }: AnalyticsScopePickerProps) => {
+  const { data } = useAnalyticsScopeOptions();
+
+  return (
+    <Select value={toValue(value)} onValueChange={(next) => onChange(fromValue(next))}>
+      <SelectTrigger className="w-full sm:w-64" aria-label="Analytics scope">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="mine">My resources</SelectItem>
+        <SelectItem value="all">All resources</SelectItem>
+        {data && data.teachers.length > 0 && (
+          <>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>By teacher</SelectLabel>
+              {data.teachers.map((teacher) => (
+                <SelectItem key={teacher.id} value={`teacher:${teacher.id}`}>
+                  {teacher.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </>
+        )}
+        {data && data.categories.length > 0 && (
+          <>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>By category</SelectLabel>
+              {data.categories.map((category) => (
+                <SelectItem key={category.id} value={`category:${category.id}`}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,36 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { describeAuditEntry, useAuditLog } from "@/hooks/use-audit-log";
+import { Loader2 } from "lucide-react";
+
+export const AuditLogCard = () => {
+  const { data: entries = [], isLoading } = useAuditLog();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent Activity</CardTitle>
+        <CardDescription>Role, permission, account and resource changes, and access requests</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No activity yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 text-sm">
+                <span>{describeAuditEntry(entry)}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {new Date(entry.created_at).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,158 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { useToast } from "@/hooks/use-toast";
+import { Category, categorySubtreeIds, useSaveCategory } from "@/hooks/use-categories";
+import { Loader2 } from "lucide-react";
+
+// Select items can't have an empty value
+const TOP_LEVEL = "none";
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Keep the name under 100 characters"),
+  description: z.string().trim().max(500, "Keep the description under 500 characters"),
+  parentId: z.string(),
+});
+
+type CategoryFormValues = z.infer<typeof categorySchema>;
+
+interface CategoryFormDialogProps {
+  // Creates a new category when left out
+  category?: Category;
+  categories: Category[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CategoryFormDialog = ({ category, categories, open, onOpenChange }: CategoryFormDialogProps) => {
+  const { toast } = useToast();
+  const saveCategory = useSaveCategory();
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: {
+      name: category?.name ?? "",
+      description: category?.description ?? "",
+      parentId: category?.parent_id ?? TOP_LEVEL,
+    },
+  });
+
+  // A category can't sit inside itself or one of its subcategories
+  const excluded = category ? categorySubtreeIds(categories, category.id) : undefined;
+
+  const onSubmit = (values: CategoryFormValues) =>
+    saveCategory.mutate(
+      {
+        id: category?.id,
+        changes: {
+          name: values.name,
+          description: values.description || null,
+          parent_id: values.parentId === TOP_LEVEL ? null : values.parentId,
+        },
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: category ? "Category updated successfully" : "Category created successfully",
+          });
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Category" : "New Category"}</DialogTitle>
+          <DialogDescription>Nest topics under a subject to group them in the category pickers</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Algebra" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parent category</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                      <CategoryOptions categories={categories} exclude={excluded} />
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveCategory.isPending}>
+                {saveCategory.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {category ? "Save Changes" : "Create Category"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,22 @@
+import { SelectItem } from "@/components/ui/select";
+import { Category, flattenCategoryTree } from "@/hooks/use-categories";
+
+interface CategoryOptionsProps {
+  categories: Category[];
+  // Ids left out of the list, e.g. a category and its subcategories when picking its parent
+  exclude?: Set<string>;
+}
+
+// Select items for every category, indented under their parents. The
+// trigger shows the plain name of the chosen one.
+export const CategoryOptions = ({ categories, exclude }: CategoryOptionsProps) => (
+  <>
+    {flattenCategoryTree(categories)
+      .filter((category) => !exclude?.has(category.id))
+      .map((category) => (
+        <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + category.depth}rem` }}>
+          {category.name}
+        </SelectItem>
+      ))}
+  </>
+);
@@ -1,7 +1,7 @@
 import { ReactNode } from "react";
-import { useAuth } from "@/integrations/supabase/auth";
+import { Permission, useAuth } from "@/integrations/supabase/auth";
 import { Button } from "@/components/ui/button";
-import { GraduationCap, LogOut, BookOpen, Upload, BarChart3, Users } from "lucide-react";
+import { GraduationCap, LogOut, BookOpen, Upload, BarChart3, Users, Download, Library, School, FolderTree } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 
@@ -10,24 +10,23 @@ interface DashboardLayoutProps {
 }
 
 export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
-  const { user, userRole, signOut } = useAuth();
+  const { user, roles, permissions, signOut } = useAuth();
   const location = useLocation();
 
   const getNavItems = () => {
-    const items = [
-      { href: "/dashboard", label: "Resources", icon: BookOpen, roles: ["student", "teacher", "admin"] },
+    // Items without a permission are open to every signed-in user
+    const items: { href: string; label: string; icon: typeof BookOpen; permission?: Permission }[] = [
+      { href: "/dashboard", label: "Resources", icon: BookOpen },
+      { href: "/courses", label: "Courses", icon: Library },
+      { href: "/classes", label: "Classes", icon: School },
+      { href: "/downloads", label: "My Downloads", icon: Download },
+      { href: "/upload", label: "Upload", icon: Upload, permission: "resource.upload" },
+      { href: "/categories", label: "Categories", icon: FolderTree, permission: "category.manage" },
+      { href: "/analytics", label: "Analytics", icon: BarChart3, permission: "analytics.view" },
+      { href: "/users", label: "Users", icon: Users, permission: "users.manage" },
     ];
 
-    if (userRole === "teacher" || userRole === "admin") {
-      items.push({ href: "/upload", label: "Upload", icon: Upload, roles: ["teacher", "admin"] });
-      items.push({ href: "/analytics", label: "Analytics", icon: BarChart3, roles: ["teacher", "admin"] });
-    }
-
-    if (userRole === "admin") {
-      items.push({ href: "/users", label: "Users", icon: Users, roles: ["admin"] });
-    }
-
-    return items;
+    return items.filter((item) => !item.permission || permissions.includes(item.permission));
   };
 
   return (
@@ -41,7 +40,7 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
             </div>
             <div>
               <h1 className="text-lg font-bold">LMS</h1>
-              <p className="text-xs text-muted-foreground capitalize">{userRole}</p>
+              <p className="text-xs text-muted-foreground capitalize">{roles.join(", ")}</p>
             </div>
           </div>
           
@@ -52,7 +51,7 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                 to={item.href}
                 className={cn(
                   "flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary",
-                  location.pathname === item.href
+                  location.pathname.startsWith(item.href)
                     ? "text-primary"
                     : "text-muted-foreground"
                 )}
@@ -76,7 +75,7 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
           {getNavItems().map((item) => (
             <Button
               key={item.href}
-              variant={location.pathname === item.href ? "default" : "outline"}
+              variant={location.pathname.startsWith(item.href) ? "default" : "outline"}
               size="sm"
               asChild
             >
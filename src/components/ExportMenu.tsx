@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { ExportFormat, ExportSheet, downloadExport } from "@/lib/export";
+import { FileDown, Loader2 } from "lucide-react";
+
+interface ExportMenuProps {
+  // Without extension, e.g. "analytics-2025-09-01"
+  filename: string;
+  getSheets: () => Promise<ExportSheet[]>;
+}
+
+export const ExportMenu = ({ filename, getSheets }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await downloadExport(format, filename, await getSheets());
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,80 @@
+import { DragEvent, useRef, useState } from "react";
+import { Upload as UploadIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface FileDropZoneProps {
+  onFiles: (files: File[]) => void;
+  // Same format as the accept attribute of a file input
+  accept?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const matchesAccept = (file: File, accept: string | undefined) => {
+  if (!accept) return true;
+
+  return accept.split(",").some((token) => {
+    const pattern = token.trim().toLowerCase();
+    if (pattern.startsWith(".")) return file.name.toLowerCase().endsWith(pattern);
+    if (pattern.endsWith("/*")) return file.type.startsWith(pattern.slice(0, -1));
+    return file.type === pattern;
+  });
+};
+
+// Accepts many files at once, either dropped onto the zone or picked through
+// the file dialog. Files that don't match `accept` are left out.
+export function FileDropZone({ onFiles, accept, disabled, className }: FileDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter((file) => matchesAccept(file, accept));
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    e.preventDefault();
+    if (!disabled) setDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled) addFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={disabled ? -1 : 0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if (!disabled && (e.key === "Enter" || e.key === " ")) inputRef.current?.click();
+      }}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors",
+        dragging ? "border-primary bg-primary/5" : "border-muted-foreground/25",
+        disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer hover:border-primary/50",
+        className
+      )}
+    >
+      <UploadIcon className="h-8 w-8 text-muted-foreground" />
+      <p className="font-medium">Drop files here or click to browse</p>
+      <p className="text-sm text-muted-foreground">Each file becomes its own resource</p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
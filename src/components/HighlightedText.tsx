@@ -0,0 +1,28 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  text: string | null;
+  className?: string;
+}
+
+// Renders ts_headline output, turning its <mark> delimiters into elements
+// without injecting the rest of the string as HTML.
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  if (!text) return null;
+
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </span>
+  );
+};
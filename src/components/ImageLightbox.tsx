@@ -0,0 +1,36 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Expand } from "lucide-react";
+
+interface ImageLightboxProps {
+  url: string;
+  alt: string;
+}
+
+// Fitted preview that opens the full-size image in an overlay
+export const ImageLightbox = ({ url, alt }: ImageLightboxProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="group relative block w-full overflow-hidden rounded-lg border bg-muted/40 cursor-zoom-in"
+        aria-label="Open full size"
+      >
+        <img src={url} alt={alt} className="mx-auto max-h-[70vh] object-contain" />
+        <span className="absolute right-2 top-2 rounded-md bg-background/80 p-1.5 opacity-0 transition-opacity group-hover:opacity-100">
+          <Expand className="h-4 w-4" />
+        </span>
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-[95vw] w-auto p-2 sm:p-4">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <img src={url} alt={alt} className="max-h-[90vh] max-w-full object-contain" />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { Document, Page, pdfjs } from "react-pdf";
+import "react-pdf/dist/Page/AnnotationLayer.css";
+import "react-pdf/dist/Page/TextLayer.css";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, Loader2, ZoomIn, ZoomOut } from "lucide-react";
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+interface PdfViewerProps {
+  url: string;
+}
+
+// Renders one page at a time, fitted to the available width at 100% zoom
+export const PdfViewer = ({ url }: PdfViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number>();
+  const [pageCount, setPageCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageInput, setPageInput] = useState("1");
+  const [zoom, setZoom] = useState(1);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const goToPage = (next: number) => {
+    const clamped = Math.min(Math.max(next, 1), pageCount || 1);
+    setPage(clamped);
+    setPageInput(String(clamped));
+  };
+
+  const changeZoom = (delta: number) =>
+    setZoom((current) => Math.min(Math.max(current + delta, MIN_ZOOM), MAX_ZOOM));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => goToPage(page - 1)} disabled={page <= 1} aria-label="Previous page">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <form
+            className="flex items-center gap-2 text-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              goToPage(Number(pageInput) || page);
+            }}
+          >
+            <Input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onBlur={() => goToPage(Number(pageInput) || page)}
+              className="h-9 w-14 text-center"
+              inputMode="numeric"
+              aria-label="Page"
+            />
+            <span className="text-muted-foreground">of {pageCount || "–"}</span>
+          </form>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= pageCount}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => changeZoom(-ZOOM_STEP)}
+            disabled={zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="w-16" onClick={() => setZoom(1)}>
+            {Math.round(zoom * 100)}%
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => changeZoom(ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="overflow-auto rounded-lg border bg-muted/40">
+        <Document
+          file={url}
+          onLoadSuccess={({ numPages }) => {
+            setPageCount(numPages);
+            goToPage(1);
+          }}
+          loading={
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          }
+          error={<p className="py-12 text-center text-muted-foreground">This PDF could not be displayed</p>}
+        >
+          {width && <Page pageNumber={page} width={width} scale={zoom} className="mx-auto w-fit" />}
+        </Document>
+      </div>
+    </div>
+  );
+};
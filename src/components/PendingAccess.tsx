@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { useAuth } from "@/integrations/supabase/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Clock, Loader2, LogOut, RefreshCw } from "lucide-react";
+
+// Shown instead of any protected page while the signed-in user holds no role
+export const PendingAccess = () => {
+  const [checking, setChecking] = useState(false);
+  const { user, refreshRoles, signOut } = useAuth();
+
+  const handleCheckAgain = async () => {
+    setChecking(true);
+    await refreshRoles();
+    setChecking(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 bg-muted rounded-full">
+              <Clock className="h-8 w-8 text-muted-foreground" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">Access Pending</CardTitle>
+          <CardDescription>
+            {user?.email ? `${user.email} is signed in` : "You are signed in"}, but your account has no access
+            yet. An administrator needs to grant you a role, or reactivate your account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          <Button onClick={handleCheckAgain} disabled={checking}>
+            {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Check Again
+          </Button>
+          <Button variant="outline" onClick={signOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
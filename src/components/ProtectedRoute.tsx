@@ -1,14 +1,16 @@
 import { Navigate } from "react-router-dom";
-import { useAuth } from "@/integrations/supabase/auth";
+import { AppRole, Permission, useAuth } from "@/integrations/supabase/auth";
+import { PendingAccess } from "@/components/PendingAccess";
 import { Loader2 } from "lucide-react";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireRole?: string[];
+  requireRole?: AppRole[];
+  requirePermission?: Permission;
 }
 
-export const ProtectedRoute = ({ children, requireRole }: ProtectedRouteProps) => {
-  const { user, userRole, loading } = useAuth();
+export const ProtectedRoute = ({ children, requireRole, requirePermission }: ProtectedRouteProps) => {
+  const { user, roles, hasAnyRole, permissions, loading } = useAuth();
 
   if (loading) {
     return (
@@ -22,7 +24,15 @@ export const ProtectedRoute = ({ children, requireRole }: ProtectedRouteProps) =
     return <Navigate to="/auth" replace />;
   }
 
-  if (requireRole && userRole && !requireRole.includes(userRole)) {
+  if (roles.length === 0) {
+    return <PendingAccess />;
+  }
+
+  if (requireRole && !hasAnyRole(requireRole)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (requirePermission && !permissions.includes(requirePermission)) {
     return <Navigate to="/dashboard" replace />;
   }
 
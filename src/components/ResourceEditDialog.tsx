@@ -0,0 +1,203 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useUpdateResource } from "@/hooks/use-resources";
+import { Category } from "@/hooks/use-categories";
+import { Loader2 } from "lucide-react";
+
+// Select items can't have an empty value, so "none" and "everyone" stand in
+// for a null category and class
+const NO_CATEGORY = "none";
+const EVERYONE = "everyone";
+
+const resourceSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Keep the title under 200 characters"),
+  description: z.string().trim().max(2000, "Keep the description under 2000 characters"),
+  categoryId: z.string(),
+  classId: z.string(),
+});
+
+type ResourceFormValues = z.infer<typeof resourceSchema>;
+
+interface ResourceEditDialogProps {
+  resource: {
+    id: string;
+    title: string;
+    description: string | null;
+    category_id: string | null;
+    class_id: string | null;
+  };
+  categories: Category[];
+  classes: { id: string; name: string }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const toFormValues = (resource: ResourceEditDialogProps["resource"]): ResourceFormValues => ({
+  title: resource.title,
+  description: resource.description ?? "",
+  categoryId: resource.category_id ?? NO_CATEGORY,
+  classId: resource.class_id ?? EVERYONE,
+});
+
+export const ResourceEditDialog = ({
+  resource,
+  categories,
+  classes,
+  open,
+  onOpenChange,
+  onSaved,
+}: ResourceEditDialogProps) => {
+  const { toast } = useToast();
+  const updateResource = useUpdateResource();
+  const form = useForm<ResourceFormValues>({
+    resolver: zodResolver(resourceSchema),
+    defaultValues: toFormValues(resource),
+  });
+
+  const onSubmit = (values: ResourceFormValues) =>
+    updateResource.mutate(
+      {
+        resourceId: resource.id,
+        metadata: {
+          title: values.title,
+          description: values.description || null,
+          category_id: values.categoryId === NO_CATEGORY ? null : values.categoryId,
+          class_id: values.classId === EVERYONE ? null : values.classId,
+        },
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: "Resource updated successfully",
+          });
+          onSaved();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Resource</DialogTitle>
+          <DialogDescription>Changes are visible to students right away</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="categoryId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_CATEGORY}>Uncategorized</SelectItem>
+                      <CategoryOptions categories={categories} />
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="classId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Visible to</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                      {classes.map((classOption) => (
+                        <SelectItem key={classOption.id} value={classOption.id}>
+                          {classOption.name} only
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateResource.isPending}>
+                {updateResource.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,166 @@
+import { ReactNode } from "react";
+import { downloadResourceFile, openResourceFile } from "@/integrations/supabase/storage";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useResourceVersions, useRestoreResourceVersion } from "@/hooks/use-resources";
+import { Download, ExternalLink, Loader2, RotateCcw } from "lucide-react";
+
+interface ResourceVersionsDialogProps {
+  resource: {
+    id: string;
+    title: string;
+    file_path: string;
+    file_type: string;
+    file_size: number | null;
+    current_version: number;
+    created_at: string;
+    file_updated_at: string | null;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+interface VersionRowProps {
+  versionNumber: number;
+  fileType: string;
+  fileSize: number | null;
+  uploadedAt: string;
+  current?: boolean;
+  children: ReactNode;
+}
+
+const VersionRow = ({ versionNumber, fileType, fileSize, uploadedAt, current, children }: VersionRowProps) => (
+  <div className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+    <div>
+      <div className="flex items-center gap-2">
+        <span className="font-medium">Version {versionNumber}</span>
+        {current && <Badge variant="secondary">Current</Badge>}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {fileType.toUpperCase()}
+        {fileSize !== null && ` • ${(fileSize / 1024 / 1024).toFixed(2)} MB`} • {new Date(uploadedAt).toLocaleDateString()}
+      </p>
+    </div>
+    <div className="flex gap-1">{children}</div>
+  </div>
+);
+
+// The current file and every file it replaced, with view, download and restore
+export const ResourceVersionsDialog = ({ resource, open, onOpenChange, onRestored }: ResourceVersionsDialogProps) => {
+  const { toast } = useToast();
+  const { data: versions, isLoading } = useResourceVersions(open ? resource.id : undefined);
+  const restoreVersion = useRestoreResourceVersion();
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const handleOpen = async (filePath: string) => {
+    try {
+      await openResourceFile(filePath);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDownload = async (filePath: string, versionNumber: number) => {
+    try {
+      await downloadResourceFile(filePath, `${resource.title} (version ${versionNumber})`);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRestore = (versionId: string, versionNumber: number) => {
+    if (!confirm(`Restore version ${versionNumber}? The current file is kept in the history.`)) return;
+
+    restoreVersion.mutate(
+      { resourceId: resource.id, versionId },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: `Version ${versionNumber} restored`,
+          });
+          onRestored();
+        },
+        onError: showError,
+      }
+    );
+  };
+
+  const fileActions = (filePath: string, versionNumber: number) => (
+    <>
+      <Button variant="ghost" size="icon" onClick={() => handleOpen(filePath)} aria-label="View">
+        <ExternalLink className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => handleDownload(filePath, versionNumber)} aria-label="Download">
+        <Download className="h-4 w-4" />
+      </Button>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>{resource.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          <VersionRow
+            versionNumber={resource.current_version}
+            fileType={resource.file_type}
+            fileSize={resource.file_size}
+            uploadedAt={resource.file_updated_at ?? resource.created_at}
+            current
+          >
+            {fileActions(resource.file_path, resource.current_version)}
+          </VersionRow>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : versions?.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">The file has not been replaced yet</p>
+          ) : (
+            versions?.map((version) => (
+              <VersionRow
+                key={version.id}
+                versionNumber={version.version_number}
+                fileType={version.file_type}
+                fileSize={version.file_size}
+                uploadedAt={version.uploaded_at}
+              >
+                {fileActions(version.file_path, version.version_number)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRestore(version.id, version.version_number)}
+                  disabled={restoreVersion.isPending}
+                  aria-label="Restore"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </VersionRow>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+import { AppRole, Permission } from "@/integrations/supabase/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useRolePermissions, useSetRolePermission } from "@/hooks/use-permission";
+import { Loader2 } from "lucide-react";
+
+const ROLES: AppRole[] = ["student", "teacher", "admin"];
+
+// Which role may do what. Admins always hold every permission, so their
+// column is shown for reference only.
+export const RolePermissionsCard = () => {
+  const { toast } = useToast();
+  const { data: permissions = [], isLoading } = useRolePermissions();
+  const setRolePermission = useSetRolePermission();
+
+  const handleToggle = (role: AppRole, permission: Permission, granted: boolean) => {
+    setRolePermission.mutate(
+      { role, permission, granted },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: `${granted ? "Granted" : "Revoked"} ${permission} for ${role}s`,
+          });
+        },
+        onError: (error) =>
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Role Permissions</CardTitle>
+        <CardDescription>Changes apply the next time affected users load the app</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 pr-4 text-left font-medium">Permission</th>
+                  {ROLES.map((role) => (
+                    <th key={role} className="px-4 py-2 text-center font-medium capitalize">
+                      {role}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {permissions.map((permission) => (
+                  <tr key={permission.key} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{permission.description}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{permission.key}</div>
+                    </td>
+                    {ROLES.map((role) => (
+                      <td key={role} className="px-4 py-2 text-center">
+                        <Switch
+                          aria-label={`${permission.key} for ${role}`}
+                          checked={role === "admin" || permission.roles.includes(role)}
+                          disabled={role === "admin" || setRolePermission.isPending}
+                          onCheckedChange={(checked) => handleToggle(role, permission.key, checked)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
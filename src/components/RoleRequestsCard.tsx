@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { usePendingRoleRequests, useReviewRoleRequest } from "@/hooks/use-role-requests";
+import { Check, X } from "lucide-react";
+
+interface RoleRequestsCardProps {
+  onReviewed?: () => void;
+}
+
+// Pending teacher access requests for admins to approve or reject
+export const RoleRequestsCard = ({ onReviewed }: RoleRequestsCardProps) => {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const { data: requests = [] } = usePendingRoleRequests();
+  const reviewRequest = useReviewRoleRequest();
+
+  if (requests.length === 0) return null;
+
+  const handleReview = (requestId: string, approve: boolean) => {
+    reviewRequest.mutate(
+      { requestId, approve, note: notes[requestId] },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: approve ? "Teacher access granted" : "Request rejected",
+          });
+          onReviewed?.();
+        },
+        onError: (error) =>
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending Teacher Requests</CardTitle>
+        <CardDescription>Approving a request adds the teacher role to the user's existing roles</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {requests.map((request) => (
+            <div key={request.id} className="space-y-3 p-4 border rounded-lg">
+              <div className="flex items-center gap-4">
+                <Avatar>
+                  <AvatarFallback>
+                    {request.requester?.full_name?.charAt(0).toUpperCase() || "?"}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium">{request.requester?.full_name || "Unknown User"}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Requested {new Date(request.created_at).toLocaleDateString()}
+                    {request.message && ` • ${request.message}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="Note for the requester (optional)"
+                  value={notes[request.id] ?? ""}
+                  onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(request.id, true)}
+                    disabled={reviewRequest.isPending}
+                  >
+                    <Check className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(request.id, false)}
+                    disabled={reviewRequest.isPending}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,98 @@
+import { ReactNode, useState } from "react";
+import { GripVertical } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SortableListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  onReorder: (items: T[]) => void;
+  renderItem: (item: T, dragHandle: ReactNode) => ReactNode;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Drag-to-reorder list built on native HTML5 drag and drop. Rows only become
+// draggable while their handle is pressed, so inputs and buttons inside a row
+// keep working. Lists can be nested: each list ignores drags it didn't start.
+export function SortableList<T>({
+  items,
+  getKey,
+  onReorder,
+  renderItem,
+  disabled,
+  className,
+}: SortableListProps<T>) {
+  const [armedKey, setArmedKey] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const reset = () => {
+    setArmedKey(null);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDrop = () => {
+    if (dragIndex !== null && overIndex !== null && dragIndex !== overIndex) {
+      const reordered = [...items];
+      const [moved] = reordered.splice(dragIndex, 1);
+      reordered.splice(overIndex, 0, moved);
+      onReorder(reordered);
+    }
+    reset();
+  };
+
+  return (
+    <div className={className}>
+      {items.map((item, index) => {
+        const key = getKey(item);
+        const dragHandle = disabled ? null : (
+          <button
+            type="button"
+            aria-label="Drag to reorder"
+            className="cursor-grab text-muted-foreground hover:text-foreground active:cursor-grabbing"
+            onMouseDown={() => setArmedKey(key)}
+            onMouseUp={() => setArmedKey(null)}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+        );
+
+        return (
+          <div
+            key={key}
+            draggable={!disabled && armedKey === key}
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.effectAllowed = "move";
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              e.stopPropagation();
+              setOverIndex(index);
+            }}
+            onDrop={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              e.stopPropagation();
+              handleDrop();
+            }}
+            onDragEnd={(e) => {
+              e.stopPropagation();
+              reset();
+            }}
+            className={cn(
+              "transition-opacity",
+              dragIndex === index && "opacity-50",
+              overIndex === index && dragIndex !== index && "ring-2 ring-primary rounded-lg"
+            )}
+          >
+            {renderItem(item, dragHandle)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
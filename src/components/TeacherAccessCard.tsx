@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useAuth } from "@/integrations/supabase/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMyRoleRequest, useRequestTeacherRole } from "@/hooks/use-role-requests";
+import { Clock, Loader2, Send } from "lucide-react";
+
+// Lets a student ask an admin for teacher access and shows where that
+// request stands
+export const TeacherAccessCard = () => {
+  const [message, setMessage] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: request, isLoading } = useMyRoleRequest(user?.id);
+  const requestTeacherRole = useRequestTeacherRole();
+
+  if (isLoading || request?.status === "approved") return null;
+
+  const handleRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    requestTeacherRole.mutate(message, {
+      onSuccess: () => {
+        setMessage("");
+        toast({
+          title: "Request sent",
+          description: "An administrator will review your request",
+        });
+      },
+      onError: (error) =>
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teacher Access</CardTitle>
+        <CardDescription>Teachers can upload resources and create classes</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {request?.status === "pending" ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            Your request from {new Date(request.created_at).toLocaleDateString()} is waiting for review
+          </div>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-3">
+            {request?.status === "rejected" && (
+              <div className="space-y-1 text-sm">
+                <Badge variant="destructive">Previous request rejected</Badge>
+                {request.review_note && <p className="text-muted-foreground">{request.review_note}</p>}
+              </div>
+            )}
+            <Textarea
+              placeholder="Tell an administrator which school or subject you teach (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={2}
+            />
+            <Button type="submit" variant="outline" disabled={requestTeacherRole.isPending}>
+              {requestTeacherRole.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Request Teacher Access
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
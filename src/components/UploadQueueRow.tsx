@@ -0,0 +1,115 @@
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { Category } from "@/hooks/use-categories";
+import { UploadQueueChanges, UploadQueueItem, UploadQueueStatus } from "@/hooks/use-upload-queue";
+import { Pause, Play, Trash2, X } from "lucide-react";
+
+interface UploadQueueRowProps {
+  item: UploadQueueItem;
+  categories: Category[];
+  onChange: (changes: UploadQueueChanges) => void;
+  onRemove: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<UploadQueueStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  paused: "Paused",
+  done: "Uploaded",
+  failed: "Failed",
+};
+
+const STATUS_VARIANTS: Record<UploadQueueStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  uploading: "secondary",
+  paused: "secondary",
+  done: "default",
+  failed: "destructive",
+};
+
+export function UploadQueueRow({
+  item,
+  categories,
+  onChange,
+  onRemove,
+  onPause,
+  onResume,
+  onCancel,
+}: UploadQueueRowProps) {
+  const inFlight = item.status === "uploading" || item.status === "paused";
+  // Metadata stays editable mid-upload; it is only saved once the file lands
+  const locked = item.status === "done";
+  const percent = item.file.size ? Math.round((item.bytesUploaded / item.file.size) * 100) : 0;
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <p className="flex-1 min-w-0 text-sm text-muted-foreground truncate">
+          {item.file.name} ({(item.file.size / 1024 / 1024).toFixed(2)} MB)
+        </p>
+        <Badge variant={STATUS_VARIANTS[item.status]}>{STATUS_LABELS[item.status]}</Badge>
+        {inFlight && (
+          <>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={item.status === "paused" ? onResume : onPause}
+            >
+              {item.status === "paused" ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {!inFlight && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <Input
+          aria-label="Title"
+          placeholder="Title"
+          value={item.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          disabled={locked}
+        />
+        <Select
+          value={item.categoryId}
+          onValueChange={(categoryId) => onChange({ categoryId })}
+          disabled={locked}
+        >
+          <SelectTrigger aria-label="Category">
+            <SelectValue placeholder="Select category" />
+          </SelectTrigger>
+          <SelectContent>
+            <CategoryOptions categories={categories} />
+          </SelectContent>
+        </Select>
+      </div>
+      <Textarea
+        aria-label="Description"
+        placeholder="Description"
+        value={item.description}
+        onChange={(e) => onChange({ description: e.target.value })}
+        disabled={locked}
+        rows={2}
+      />
+
+      {inFlight && <Progress value={percent} className="h-2" />}
+      {item.error && <p className="text-sm text-destructive">{item.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole, useAuth } from "@/integrations/supabase/auth";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { MoreHorizontal } from "lucide-react";
+
+const ROLES: AppRole[] = ["student", "teacher", "admin"];
+
+interface UserActionsMenuProps {
+  user: {
+    user_id: string;
+    full_name: string | null;
+    is_active: boolean;
+    roles: AppRole[];
+  };
+  isSelf: boolean;
+  // True when this user is the only active admin left
+  isLastAdmin: boolean;
+  onChanged: () => void;
+}
+
+interface PendingAction {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  successMessage: string;
+  run: () => PromiseLike<{ error: Error | null }>;
+}
+
+// Per-user admin actions; every action is confirmed before it runs
+export const UserActionsMenu = ({ user, isSelf, isLastAdmin, onChanged }: UserActionsMenuProps) => {
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [running, setRunning] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Non-admins holding users.manage may not touch the admin role or admins
+  const isAdmin = hasRole("admin");
+  const canManageAccount = isAdmin || !user.roles.includes("admin");
+  const name = user.full_name || "this user";
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+
+    setRunning(true);
+    try {
+      const { error } = await pendingAction.run();
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: pendingAction.successMessage,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+      setPendingAction(null);
+    }
+  };
+
+  const grant = (role: AppRole) =>
+    setPendingAction({
+      title: `Grant ${role} role?`,
+      description: `${name} will get every permission of the ${role} role.`,
+      confirmLabel: "Grant",
+      successMessage: `Granted the ${role} role`,
+      run: () => supabase.rpc("grant_role", { _user_id: user.user_id, _role: role }),
+    });
+
+  const revoke = (role: AppRole) =>
+    setPendingAction({
+      title: `Revoke ${role} role?`,
+      description: isSelf
+        ? `You will lose every permission of the ${role} role yourself.`
+        : `${name} will lose every permission of the ${role} role.`,
+      confirmLabel: "Revoke",
+      successMessage: `Revoked the ${role} role`,
+      run: () => supabase.rpc("revoke_role", { _user_id: user.user_id, _role: role }),
+    });
+
+  const toggleActive = () =>
+    setPendingAction(
+      user.is_active
+        ? {
+            title: "Deactivate account?",
+            description: `${name} will be signed out and lose access until the account is reactivated. Their uploads are kept.`,
+            confirmLabel: "Deactivate",
+            successMessage: "Account deactivated",
+            run: () => supabase.rpc("set_user_active", { _user_id: user.user_id, _active: false }),
+          }
+        : {
+            title: "Reactivate account?",
+            description: `${name} will be able to sign in again with their existing roles.`,
+            confirmLabel: "Reactivate",
+            successMessage: "Account reactivated",
+            run: () => supabase.rpc("set_user_active", { _user_id: user.user_id, _active: true }),
+          }
+    );
+
+  const resetProfile = () =>
+    setPendingAction({
+      title: "Reset profile?",
+      description: `The name and avatar of ${name} will be cleared. Roles and uploads are kept.`,
+      confirmLabel: "Reset",
+      successMessage: "Profile reset",
+      run: () => supabase.rpc("reset_profile", { _user_id: user.user_id }),
+    });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" aria-label="User actions">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Roles</DropdownMenuLabel>
+          {ROLES.map((role) =>
+            user.roles.includes(role) ? (
+              <DropdownMenuItem
+                key={role}
+                onSelect={() => revoke(role)}
+                disabled={role === "admin" && (isLastAdmin || !isAdmin)}
+              >
+                Revoke {role}
+                {role === "admin" && isLastAdmin && " (last admin)"}
+              </DropdownMenuItem>
+            ) : (
+              <DropdownMenuItem key={role} onSelect={() => grant(role)} disabled={role === "admin" && !isAdmin}>
+                Grant {role}
+              </DropdownMenuItem>
+            )
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Account</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={toggleActive} disabled={!canManageAccount || (isSelf && user.is_active)}>
+            {user.is_active ? "Deactivate account" : "Reactivate account"}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={resetProfile} disabled={!canManageAccount}>
+            Reset profile
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && !running && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingAction?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={running}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={running}
+            >
+              {pendingAction?.confirmLabel}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gauge, RotateCcw } from "lucide-react";
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Progress is reported after this much playback, and on pause, end and leave
+const REPORT_INTERVAL_SECONDS = 10;
+
+// Positions this close to the end start the video over instead of resuming
+const RESUME_END_MARGIN_SECONDS = 5;
+
+export type WatchedRange = [start: number, end: number];
+
+interface VideoPlayerProps {
+  url: string;
+  startAt?: number;
+  // watched holds the parts played since the video loaded; seeking adds none
+  onProgress?: (position: number, duration: number, watched: WatchedRange[]) => void;
+}
+
+const playedRanges = (video: HTMLVideoElement) =>
+  Array.from({ length: video.played.length }, (_, i): WatchedRange => [video.played.start(i), video.played.end(i)]);
+
+const formatTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(Math.floor(seconds % 60)).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+};
+
+export const VideoPlayer = ({ url, startAt, onProgress }: VideoPlayerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastReportedRef = useRef(0);
+  const onProgressRef = useRef(onProgress);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [resumedAt, setResumedAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    onProgressRef.current = onProgress;
+  });
+
+  // Browsers reset the rate whenever a new source loads
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = playbackRate;
+  }, [playbackRate, url]);
+
+  const report = useCallback((video: HTMLVideoElement) => {
+    if (!Number.isFinite(video.duration) || video.currentTime === lastReportedRef.current) return;
+
+    lastReportedRef.current = video.currentTime;
+    onProgressRef.current?.(video.currentTime, video.duration, playedRanges(video));
+  }, []);
+
+  // Save where the viewer left off when they navigate away mid-video
+  useEffect(() => {
+    const video = videoRef.current;
+    return () => {
+      if (video) report(video);
+    };
+  }, [report]);
+
+  const handleLoadedMetadata = (video: HTMLVideoElement) => {
+    video.playbackRate = playbackRate;
+
+    if (startAt && startAt < video.duration - RESUME_END_MARGIN_SECONDS) {
+      video.currentTime = startAt;
+      lastReportedRef.current = startAt;
+      setResumedAt(startAt);
+    }
+  };
+
+  const handleTimeUpdate = (video: HTMLVideoElement) => {
+    if (Math.abs(video.currentTime - lastReportedRef.current) >= REPORT_INTERVAL_SECONDS) report(video);
+  };
+
+  const startOver = () => {
+    if (videoRef.current) videoRef.current.currentTime = 0;
+    setResumedAt(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <video
+        ref={videoRef}
+        src={url}
+        controls
+        preload="metadata"
+        className="w-full max-h-[70vh] rounded-lg bg-black"
+        onLoadedMetadata={(e) => handleLoadedMetadata(e.currentTarget)}
+        onTimeUpdate={(e) => handleTimeUpdate(e.currentTarget)}
+        onPause={(e) => report(e.currentTarget)}
+        onEnded={(e) => report(e.currentTarget)}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        {resumedAt !== null ? (
+          <div className="flex items-center gap-2">
+            <span>Resumed where you left off at {formatTime(resumedAt)}</span>
+            <Button variant="ghost" size="sm" onClick={startOver}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Start over
+            </Button>
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex items-center gap-2">
+          <Gauge className="h-4 w-4" />
+          <span>Speed</span>
+          <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+            <SelectTrigger className="w-24" aria-label="Playback speed">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map((rate) => (
+                <SelectItem key={rate} value={String(rate)}>
+                  {rate}×
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,390 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, differenceInCalendarDays, format, startOfDay, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+
+// Which resources the Analytics page aggregates over. Only holders of
+// analytics.view_all may pick anything but "mine"; RLS enforces the same.
+export type AnalyticsScope =
+  | { type: "mine" }
+  | { type: "all" }
+  | { type: "teacher"; teacherId: string }
+  | { type: "category"; categoryId: string };
+
+export interface AnalyticsScopeOption {
+  id: string;
+  name: string;
+}
+
+// Teachers and categories offered by the scope switcher
+export function useAnalyticsScopeOptions() {
+  return useQuery({
+    queryKey: ["analytics", "scope-options"],
+    queryFn: async () => {
+      const [teacherRolesResult, categoriesResult] = await Promise.all([
+        supabase.from("user_roles").select("user_id").eq("role", "teacher"),
+        supabase.from("categories").select("id, name").order("name"),
+      ]);
+
+      if (teacherRolesResult.error) throw teacherRolesResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      const teacherIds = (teacherRolesResult.data || []).map(({ user_id }) => user_id);
+      const { data: profiles, error } = teacherIds.length
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", teacherIds).order("full_name")
+        : { data: [], error: null };
+
+      if (error) throw error;
+
+      const teachers: AnalyticsScopeOption[] = (profiles || []).map((profile) => ({
+        id: profile.user_id,
+        name: profile.full_name || "Unknown User",
+      }));
+      const categories: AnalyticsScopeOption[] = categoriesResult.data || [];
+
+      return { teachers, categories };
+    },
+  });
+}
+
+export type TrendBucket = "day" | "week" | "month";
+
+export type RangePreset = "7d" | "30d" | "term" | "custom";
+
+// Whole local days; end is exclusive
+export interface AnalyticsRange {
+  start: Date;
+  end: Date;
+}
+
+// Terms run January–April, May–August and September–December
+const TERM_START_MONTHS = [8, 4, 0];
+
+// Trends are grouped by the viewer's calendar days, not UTC ones
+const TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getPresetRange = (preset: Exclude<RangePreset, "custom">, now = new Date()): AnalyticsRange => {
+  const end = startOfDay(addDays(now, 1));
+
+  switch (preset) {
+    case "30d":
+      return { start: subDays(end, 30), end };
+    case "term": {
+      const month = TERM_START_MONTHS.find((startMonth) => startMonth <= now.getMonth()) ?? 0;
+      return { start: new Date(now.getFullYear(), month, 1), end };
+    }
+    default:
+      return { start: subDays(end, 7), end };
+  }
+};
+
+const BUCKET_FORMATS: Record<TrendBucket, string> = {
+  day: "MMM d",
+  week: "'Week of' MMM d",
+  month: "MMM yyyy",
+};
+
+// Chart label for the bucket starting at the given instant, in local time
+export const formatBucket = (bucketStart: string, bucket: TrendBucket) =>
+  format(new Date(bucketStart), BUCKET_FORMATS[bucket]);
+
+// The period of the same number of days right before the range
+export const getPreviousRange = ({ start, end }: AnalyticsRange): AnalyticsRange => ({
+  start: subDays(start, differenceInCalendarDays(end, start)),
+  end: start,
+});
+
+export interface TrendPoint {
+  bucket_start: string;
+  views: number;
+  downloads: number;
+}
+
+// RPC arguments shared by every analytics function
+function useScopeArgs(scope: AnalyticsScope) {
+  const { user } = useAuth();
+
+  switch (scope.type) {
+    case "mine":
+      return { _uploaded_by: user?.id };
+    case "teacher":
+      return { _uploaded_by: scope.teacherId };
+    case "category":
+      return { _category_id: scope.categoryId };
+    default:
+      return {};
+  }
+}
+
+export function useAnalyticsSummary(scope: AnalyticsScope) {
+  const args = useScopeArgs(scope);
+
+  return useQuery({
+    queryKey: ["analytics", "summary", args],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_summary", args).single();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useResourcesByCategory(scope: AnalyticsScope) {
+  const args = useScopeArgs(scope);
+
+  return useQuery({
+    queryKey: ["analytics", "by-category", args],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("resources_by_category", args);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// One point per bucket of the range, empty buckets included. Passing a
+// resource narrows the scope down to it.
+export function useViewsByDay(
+  scope: AnalyticsScope,
+  range: AnalyticsRange,
+  bucket: TrendBucket = "day",
+  resourceId?: string
+) {
+  const args = useScopeArgs(scope);
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+
+  return useQuery({
+    queryKey: ["analytics", "trends", args, start, end, bucket, TIME_ZONE, resourceId],
+    queryFn: async (): Promise<TrendPoint[]> => {
+      const { data, error } = await supabase.rpc("views_by_day", {
+        ...args,
+        _start: start,
+        _end: end,
+        _bucket: bucket,
+        _time_zone: TIME_ZONE,
+        _resource_id: resourceId,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useTopResources(scope: AnalyticsScope, limit = 5) {
+  const args = useScopeArgs(scope);
+
+  return useQuery({
+    queryKey: ["analytics", "top-resources", args, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("top_resources", { ...args, _limit: limit });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// How many viewers started and finished each video in scope
+export function useVideoCompletion(scope: AnalyticsScope) {
+  const args = useScopeArgs(scope);
+
+  return useQuery({
+    queryKey: ["analytics", "video-completion", args],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("video_completion", args);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export interface ResourceAnalyticsDetails {
+  id: string;
+  title: string;
+  file_type: string;
+  uploaded_by: string;
+  created_at: string;
+  categories: { name: string } | null;
+  uploader: { full_name: string | null } | null;
+}
+
+export function useResourceAnalyticsDetails(resourceId: string | undefined) {
+  return useQuery({
+    queryKey: ["analytics", "resource", resourceId],
+    enabled: !!resourceId,
+    queryFn: async (): Promise<ResourceAnalyticsDetails | null> => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select(`
+          id,
+          title,
+          file_type,
+          uploaded_by,
+          created_at,
+          categories (name),
+          uploader:profiles!resources_uploaded_by_profiles_fkey (full_name)
+        `)
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useResourceAnalyticsSummary(resourceId: string | undefined, range: AnalyticsRange) {
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+
+  return useQuery({
+    queryKey: ["analytics", "resource", resourceId, "summary", start, end],
+    enabled: !!resourceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc("resource_analytics_summary", { _resource_id: resourceId, _start: start, _end: end })
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Views per local weekday (0 = Sunday) and hour; combinations without views are left out
+export function useResourceTraffic(resourceId: string | undefined, range: AnalyticsRange) {
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+
+  return useQuery({
+    queryKey: ["analytics", "resource", resourceId, "traffic", start, end, TIME_ZONE],
+    enabled: !!resourceId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("resource_traffic_by_hour", {
+        _resource_id: resourceId,
+        _start: start,
+        _end: end,
+        _time_zone: TIME_ZONE,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Uploader and admins only; the RPC refuses everyone else
+export function useResourceViewers(resourceId: string | undefined, range: AnalyticsRange, enabled: boolean) {
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+
+  return useQuery({
+    queryKey: ["analytics", "resource", resourceId, "viewers", start, end],
+    enabled: !!resourceId && enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("resource_viewers", {
+        _resource_id: resourceId,
+        _start: start,
+        _end: end,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Rows behind the spreadsheet exports. They are fetched when an export is
+// requested rather than with the page, and cached like any other query.
+export function useAnalyticsExportData(scope: AnalyticsScope, range: AnalyticsRange) {
+  const args = useScopeArgs(scope);
+  const queryClient = useQueryClient();
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+
+  const fetchResourceMetrics = () =>
+    queryClient.fetchQuery({
+      queryKey: ["analytics", "resource-metrics", args, start, end],
+      queryFn: async () => {
+        const { data, error } = await supabase.rpc("resource_metrics", { ...args, _start: start, _end: end });
+
+        if (error) throw error;
+        return data || [];
+      },
+    });
+
+  // Admins, or anyone limited to their own uploads; the RPC refuses other scopes
+  const fetchUserActivity = () =>
+    queryClient.fetchQuery({
+      queryKey: ["analytics", "user-activity", args, start, end],
+      queryFn: async () => {
+        const { data, error } = await supabase.rpc("user_activity", { ...args, _start: start, _end: end });
+
+        if (error) throw error;
+        return data || [];
+      },
+    });
+
+  const fetchDailyTrends = () =>
+    queryClient.fetchQuery({
+      queryKey: ["analytics", "trends", args, start, end, "day", TIME_ZONE, undefined],
+      queryFn: async (): Promise<TrendPoint[]> => {
+        const { data, error } = await supabase.rpc("views_by_day", {
+          ...args,
+          _start: start,
+          _end: end,
+          _bucket: "day",
+          _time_zone: TIME_ZONE,
+        });
+
+        if (error) throw error;
+        return data || [];
+      },
+    });
+
+  return { fetchResourceMetrics, fetchUserActivity, fetchDailyTrends };
+}
+
+// Whether the signed-in user gets the weekly analytics digest email
+export function useAnalyticsDigestPreference() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["analytics", "digest-preference", user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("analytics_digest_enabled")
+        .eq("user_id", user.id)
+        .single();
+
+      if (error) throw error;
+      return data.analytics_digest_enabled;
+    },
+  });
+}
+
+export function useSetAnalyticsDigestPreference() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ analytics_digest_enabled: enabled })
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["analytics", "digest-preference"] });
+    },
+  });
+}
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  details: Json;
+  created_at: string;
+  actor: { full_name: string | null } | null;
+  target: { full_name: string | null } | null;
+}
+
+// Most recent first; visible to admins only
+export function useAuditLog(limit = 20) {
+  return useQuery({
+    queryKey: ["audit-log", limit],
+    queryFn: async (): Promise<AuditLogEntry[]> => {
+      const { data, error } = await supabase
+        .from("audit_log")
+        .select(`
+          id,
+          action,
+          entity_type,
+          entity_id,
+          details,
+          created_at,
+          actor:profiles!audit_log_actor_id_fkey (full_name),
+          target:profiles!audit_log_target_user_id_fkey (full_name)
+        `)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+const detail = (details: Json, key: string) =>
+  details && typeof details === "object" && !Array.isArray(details) ? String(details[key] ?? "") : "";
+
+// One-line, human readable summary of an entry
+export const describeAuditEntry = (entry: AuditLogEntry) => {
+  const actor = entry.actor?.full_name || "System";
+  const target = entry.target?.full_name || "a deleted user";
+
+  switch (entry.action) {
+    case "role.granted":
+      return `${actor} granted the ${detail(entry.details, "role")} role to ${target}`;
+    case "role.revoked":
+      return `${actor} revoked the ${detail(entry.details, "role")} role from ${target}`;
+    case "permission.granted":
+      return `${actor} allowed ${detail(entry.details, "role")}s to use ${detail(entry.details, "permission")}`;
+    case "permission.revoked":
+      return `${actor} stopped ${detail(entry.details, "role")}s from using ${detail(entry.details, "permission")}`;
+    case "role_request.created":
+      return `${target} requested teacher access`;
+    case "role_request.approved":
+      return `${actor} approved ${target}'s teacher access request`;
+    case "role_request.rejected":
+      return `${actor} rejected ${target}'s teacher access request`;
+    case "user.deactivated":
+      return `${actor} deactivated ${target}'s account`;
+    case "user.reactivated":
+      return `${actor} reactivated ${target}'s account`;
+    case "user.profile_reset":
+      return `${actor} reset ${target}'s profile`;
+    case "resource.updated":
+      return `${actor} edited ${target}'s resource "${detail(entry.details, "title")}"`;
+    case "resource.file_replaced":
+      return `${actor} uploaded version ${detail(entry.details, "version")} of a resource by ${target}`;
+    case "resource.version_restored":
+      return `${actor} restored version ${detail(entry.details, "version")} of a resource by ${target}`;
+    case "category.merged":
+      return `${actor} merged category "${detail(entry.details, "source")}" into "${detail(entry.details, "target")}"`;
+    default:
+      return `${actor}: ${entry.action}`;
+  }
+};
@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Category {
+  id: string;
+  name: string;
+  description: string | null;
+  parent_id: string | null;
+}
+
+export interface CategoryTreeItem extends Category {
+  depth: number;
+}
+
+// Parents before their children, siblings by name; for indented lists
+export const flattenCategoryTree = (categories: Category[]): CategoryTreeItem[] => {
+  const ids = new Set(categories.map((category) => category.id));
+  const children = new Map<string | null, Category[]>();
+
+  for (const category of categories) {
+    // A parent that isn't loaded makes the category a root rather than hiding it
+    const parentId = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  }
+
+  const items: CategoryTreeItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = [...(children.get(parentId) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const category of siblings) {
+      items.push({ ...category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return items;
+};
+
+// The category and every category below it
+export const categorySubtreeIds = (categories: Category[], categoryId: string) => {
+  const ids = new Set([categoryId]);
+  let size = 0;
+
+  while (ids.size !== size) {
+    size = ids.size;
+    for (const category of categories) {
+      if (category.parent_id && ids.has(category.parent_id)) ids.add(category.id);
+    }
+  }
+
+  return ids;
+};
+
+export function useCategories() {
+  return useQuery({
+    queryKey: ["categories"],
+    queryFn: async (): Promise<Category[]> => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name, description, parent_id")
+        .order("name");
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Resources per category id, across all resources; category managers only
+export function useCategoryResourceCounts() {
+  return useQuery({
+    queryKey: ["categories", "resource-counts"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("category_resource_counts");
+      if (error) throw error;
+      return new Map((data || []).map((row) => [row.category_id, row.resource_count]));
+    },
+  });
+}
+
+export type CategoryChanges = Pick<Category, "name" | "description" | "parent_id">;
+
+// Creates a category when no id is given
+export function useSaveCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, changes }: { id?: string; changes: CategoryChanges }) => {
+      const { error } = id
+        ? await supabase.from("categories").update(changes).eq("id", id)
+        : await supabase.from("categories").insert(changes);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      queryClient.invalidateQueries({ queryKey: ["resources"] });
+    },
+  });
+}
+
+// Subcategories move up a level; the category's resources become uncategorized
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("categories").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      queryClient.invalidateQueries({ queryKey: ["resources"] });
+    },
+  });
+}
+
+// Returns how many resources moved into the target
+export function useMergeCategories() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { data, error } = await supabase.rpc("merge_categories", { _source_id: sourceId, _target_id: targetId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      queryClient.invalidateQueries({ queryKey: ["resources"] });
+    },
+  });
+}
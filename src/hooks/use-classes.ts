@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ClassSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  teacher_id: string;
+  join_code: string;
+  student_count: number;
+}
+
+export interface ClassRosterEntry {
+  id: string;
+  user_id: string;
+  enrolled_at: string;
+  full_name: string | null;
+}
+
+export interface ClassDetail {
+  id: string;
+  name: string;
+  description: string | null;
+  teacher_id: string;
+  join_code: string;
+  teacher_name: string | null;
+  roster: ClassRosterEntry[];
+  resources: { id: string; title: string; file_type: string; created_at: string }[];
+}
+
+// RLS narrows this to the classes a user teaches or is enrolled in
+export function useClasses() {
+  return useQuery({
+    queryKey: ["classes"],
+    queryFn: async (): Promise<ClassSummary[]> => {
+      const { data, error } = await supabase
+        .from("classes")
+        .select(`
+          id,
+          name,
+          description,
+          teacher_id,
+          join_code,
+          enrollments (count)
+        `)
+        .order("name");
+
+      if (error) throw error;
+
+      return (data || []).map(({ enrollments, ...classData }) => ({
+        ...classData,
+        student_count: enrollments[0]?.count ?? 0,
+      }));
+    },
+  });
+}
+
+export function useClassDetail(classId: string | undefined) {
+  return useQuery({
+    queryKey: ["classes", classId],
+    enabled: !!classId,
+    queryFn: async (): Promise<ClassDetail> => {
+      const [classResult, resourcesResult] = await Promise.all([
+        supabase
+          .from("classes")
+          .select(`
+            id,
+            name,
+            description,
+            teacher_id,
+            join_code,
+            enrollments (
+              id,
+              user_id,
+              enrolled_at,
+              profiles (full_name)
+            )
+          `)
+          .eq("id", classId!)
+          .single(),
+        supabase
+          .from("resources")
+          .select("id, title, file_type, created_at")
+          .eq("class_id", classId!)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (classResult.error) throw classResult.error;
+      if (resourcesResult.error) throw resourcesResult.error;
+
+      const { enrollments, ...classData } = classResult.data;
+      const { data: teacher } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", classData.teacher_id)
+        .maybeSingle();
+
+      return {
+        ...classData,
+        teacher_name: teacher?.full_name ?? null,
+        roster: enrollments
+          .map(({ profiles, ...enrollment }) => ({ ...enrollment, full_name: profiles?.full_name ?? null }))
+          .sort((a, b) => (a.full_name ?? "").localeCompare(b.full_name ?? "")),
+        resources: resourcesResult.data || [],
+      };
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface CourseSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  is_published: boolean;
+  created_by: string;
+  created_at: string;
+  module_count: number;
+}
+
+export interface CourseItem {
+  id: string;
+  title: string | null;
+  position: number;
+  resource: {
+    id: string;
+    title: string;
+    file_type: string;
+    file_path: string;
+  } | null;
+}
+
+export interface CourseModule {
+  id: string;
+  title: string;
+  description: string | null;
+  position: number;
+  items: CourseItem[];
+}
+
+export interface CourseDetail {
+  id: string;
+  title: string;
+  description: string | null;
+  is_published: boolean;
+  created_by: string;
+  modules: CourseModule[];
+}
+
+const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+export function useCourses() {
+  return useQuery({
+    queryKey: ["courses"],
+    queryFn: async (): Promise<CourseSummary[]> => {
+      const { data, error } = await supabase
+        .from("courses")
+        .select(`
+          id,
+          title,
+          description,
+          is_published,
+          created_by,
+          created_at,
+          course_modules (count)
+        `)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(({ course_modules, ...course }) => ({
+        ...course,
+        module_count: course_modules[0]?.count ?? 0,
+      }));
+    },
+  });
+}
+
+export function useCourse(courseId: string | undefined) {
+  return useQuery({
+    queryKey: ["courses", courseId],
+    enabled: !!courseId,
+    queryFn: async (): Promise<CourseDetail> => {
+      const { data, error } = await supabase
+        .from("courses")
+        .select(`
+          id,
+          title,
+          description,
+          is_published,
+          created_by,
+          course_modules (
+            id,
+            title,
+            description,
+            position,
+            module_items (
+              id,
+              title,
+              position,
+              resources (id, title, file_type, file_path)
+            )
+          )
+        `)
+        .eq("id", courseId!)
+        .single();
+
+      if (error) throw error;
+
+      const { course_modules, ...course } = data;
+      return {
+        ...course,
+        modules: course_modules
+          .map(({ module_items, ...module }) => ({
+            ...module,
+            items: module_items
+              .map(({ resources, ...item }) => ({ ...item, resource: resources }))
+              .sort(byPosition),
+          }))
+          .sort(byPosition),
+      };
+    },
+  });
+}
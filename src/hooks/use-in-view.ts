@@ -0,0 +1,16 @@
+import * as React from "react";
+
+export function useInView<T extends Element>(rootMargin = "0px") {
+  const [node, setNode] = React.useState<T | null>(null);
+  const [inView, setInView] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!node) return;
+
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting), { rootMargin });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, rootMargin]);
+
+  return [setNode, inView] as const;
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole, Permission, useAuth } from "@/integrations/supabase/auth";
+
+export interface PermissionDefinition {
+  key: Permission;
+  description: string;
+  roles: AppRole[];
+}
+
+// Whether the signed-in user's roles currently allow an action. Policies check
+// the same permission server-side; this only decides what to show.
+export function usePermission(permission: Permission) {
+  const { permissions } = useAuth();
+  return permissions.includes(permission);
+}
+
+// Every permission with the roles that hold it, for the admin editor
+export function useRolePermissions() {
+  return useQuery({
+    queryKey: ["role-permissions"],
+    queryFn: async (): Promise<PermissionDefinition[]> => {
+      const [permissionsResult, grantsResult] = await Promise.all([
+        supabase.from("permissions").select("key, description").order("key"),
+        supabase.from("role_permissions").select("role, permission"),
+      ]);
+
+      if (permissionsResult.error) throw permissionsResult.error;
+      if (grantsResult.error) throw grantsResult.error;
+
+      return (permissionsResult.data || []).map((permission) => ({
+        key: permission.key as Permission,
+        description: permission.description,
+        roles: (grantsResult.data || [])
+          .filter((grant) => grant.permission === permission.key)
+          .map((grant) => grant.role),
+      }));
+    },
+  });
+}
+
+export function useSetRolePermission() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ role, permission, granted }: { role: AppRole; permission: Permission; granted: boolean }) => {
+      const { error } = await supabase.rpc("set_role_permission", {
+        _role: role,
+        _permission: permission,
+        _granted: granted,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["role-permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+    },
+  });
+}
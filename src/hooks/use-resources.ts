@@ -0,0 +1,403 @@
+import {
+  InfiniteData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import {
+  VIEWER_URL_EXPIRES_IN,
+  getResourceFileUrl,
+  removeResourceFile,
+  uploadResourceFile,
+} from "@/integrations/supabase/storage";
+import { getFileType } from "@/lib/file-type";
+
+export type ResourceSort = "relevance" | "newest" | "views" | "downloads";
+
+export interface ResourceListItem {
+  id: string;
+  title: string;
+  description: string | null;
+  file_path: string;
+  file_type: string;
+  file_size: number | null;
+  view_count: number;
+  download_count: number;
+  created_at: string;
+  file_updated_at: string | null;
+  category_name: string | null;
+  uploader_name: string | null;
+  title_highlight: string | null;
+  description_snippet: string | null;
+}
+
+export interface ResourceFeedParams {
+  query: string;
+  categoryId: string | null;
+  fileType: string | null;
+  sort: ResourceSort;
+  pageSize: number;
+}
+
+// Browsing pages by keyset on (sort column, id); search pages by offset,
+// because relevance ranking has no stable column to seek on.
+type ResourcePageParam = { value: string | number; id: string } | { offset: number } | null;
+
+interface ResourcePage {
+  items: ResourceListItem[];
+  nextPageParam: ResourcePageParam;
+  totalCount: number | null;
+}
+
+const SORT_COLUMNS = {
+  newest: "created_at",
+  views: "view_count",
+  downloads: "download_count",
+} as const;
+
+const fetchFeedPage = async (
+  { categoryId, fileType, sort, pageSize }: ResourceFeedParams,
+  cursor: { value: string | number; id: string } | null
+): Promise<ResourcePage> => {
+  const column = SORT_COLUMNS[sort === "relevance" ? "newest" : sort];
+
+  // A category includes everything filed under its subcategories
+  let categoryIds: string[] | null = null;
+  if (categoryId) {
+    const { data, error } = await supabase.rpc("category_subtree", { _category_id: categoryId });
+    if (error) throw error;
+    categoryIds = data;
+  }
+
+  let request = supabase
+    .from("resources")
+    .select(`
+      id,
+      title,
+      description,
+      file_path,
+      file_type,
+      file_size,
+      view_count,
+      download_count,
+      created_at,
+      file_updated_at,
+      categories (name),
+      profiles!resources_uploaded_by_profiles_fkey (full_name)
+    `)
+    .order(column, { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize);
+
+  if (categoryIds) request = request.in("category_id", categoryIds);
+  if (fileType) request = request.eq("file_type", fileType);
+  if (cursor) {
+    request = request.or(
+      `${column}.lt."${cursor.value}",and(${column}.eq."${cursor.value}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+
+  const items = (data ?? []).map(({ categories, profiles, ...resource }) => ({
+    ...resource,
+    category_name: categories?.name ?? null,
+    uploader_name: profiles?.full_name ?? null,
+    title_highlight: null,
+    description_snippet: resource.description,
+  }));
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextPageParam: items.length === pageSize ? { value: last[column], id: last.id } : null,
+    totalCount: null,
+  };
+};
+
+const fetchSearchPage = async (
+  { query, categoryId, fileType, sort, pageSize }: ResourceFeedParams,
+  offset: number
+): Promise<ResourcePage> => {
+  const { data, error } = await supabase.rpc("search_resources", {
+    _query: query.trim(),
+    _category_id: categoryId ?? undefined,
+    _file_type: fileType ?? undefined,
+    _sort: sort,
+    _limit: pageSize,
+    _offset: offset,
+  });
+
+  if (error) throw error;
+
+  const items = data ?? [];
+  const totalCount = items[0]?.total_count ?? 0;
+
+  return {
+    items,
+    nextPageParam: offset + items.length < totalCount ? { offset: offset + items.length } : null,
+    totalCount,
+  };
+};
+
+export function useResourceFeed(params: ResourceFeedParams) {
+  const isSearch = params.query.trim().length > 0;
+
+  return useInfiniteQuery({
+    queryKey: ["resources", isSearch ? "search" : "feed", params],
+    initialPageParam: null as ResourcePageParam,
+    queryFn: ({ pageParam }) =>
+      isSearch
+        ? fetchSearchPage(params, pageParam && "offset" in pageParam ? pageParam.offset : 0)
+        : fetchFeedPage(params, pageParam && "id" in pageParam ? pageParam : null),
+    getNextPageParam: (lastPage) => lastPage.nextPageParam,
+  });
+}
+
+export interface ResourceDetails {
+  id: string;
+  title: string;
+  description: string | null;
+  file_path: string;
+  file_type: string;
+  file_size: number | null;
+  view_count: number;
+  download_count: number;
+  created_at: string;
+  file_updated_at: string | null;
+  categories: { name: string } | null;
+  uploader: { full_name: string | null } | null;
+}
+
+export function useResource(resourceId: string | undefined) {
+  return useQuery({
+    queryKey: ["resource", resourceId],
+    enabled: !!resourceId,
+    queryFn: async (): Promise<ResourceDetails | null> => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select(`
+          id,
+          title,
+          description,
+          file_path,
+          file_type,
+          file_size,
+          view_count,
+          download_count,
+          created_at,
+          file_updated_at,
+          categories (name),
+          uploader:profiles!resources_uploaded_by_profiles_fkey (full_name)
+        `)
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Signed once per visit: a new URL would make the player reload the file
+export function useResourceViewerUrl(filePath: string | undefined) {
+  return useQuery({
+    queryKey: ["resource-viewer-url", filePath],
+    enabled: !!filePath,
+    staleTime: Infinity,
+    gcTime: 0,
+    queryFn: () => getResourceFileUrl(filePath, undefined, VIEWER_URL_EXPIRES_IN),
+  });
+}
+
+// The signed-in user's place in a video, null before they first play it. Not
+// cached, as the player saves newer positions while it is open.
+export function useResourceProgress(resourceId: string | undefined, enabled: boolean) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["resource-progress", resourceId, user?.id],
+    enabled: !!resourceId && !!user && enabled,
+    gcTime: 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resource_progress")
+        .select("position_seconds, duration_seconds, percent_watched, completed")
+        .eq("resource_id", resourceId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useSaveResourceProgress() {
+  return useMutation({
+    mutationFn: async ({
+      resourceId,
+      position,
+      duration,
+      watched,
+    }: {
+      resourceId: string;
+      position: number;
+      duration: number;
+      watched: [number, number][];
+    }) => {
+      const { error } = await supabase.rpc("save_resource_progress", {
+        _resource_id: resourceId,
+        _position_seconds: Math.min(position, duration),
+        _duration_seconds: duration,
+        _watched_ranges: watched,
+      });
+
+      if (error) throw error;
+    },
+  });
+}
+
+// Earlier files of a resource, newest first. Only its editors can see them.
+export function useResourceVersions(resourceId: string | undefined) {
+  return useQuery({
+    queryKey: ["resource-versions", resourceId],
+    enabled: !!resourceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resource_versions")
+        .select("id, version_number, file_path, file_type, file_size, uploaded_at, replaced_at")
+        .eq("resource_id", resourceId)
+        .order("version_number", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+const invalidateResourceFile = (queryClient: QueryClient, resourceId: string) => {
+  queryClient.invalidateQueries({ queryKey: ["resource", resourceId] });
+  queryClient.invalidateQueries({ queryKey: ["resource-versions", resourceId] });
+  queryClient.invalidateQueries({ queryKey: ["resources"] });
+};
+
+// Uploads the new file, then swaps it in; the id, counters and links stay
+export function useReplaceResourceFile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, file }: { resourceId: string; file: File }) => {
+      const { data: maxFileSize, error: limitError } = await supabase.rpc("max_upload_size", { _user_id: user.id });
+      if (limitError) throw limitError;
+      if (file.size > maxFileSize) {
+        throw new Error(`Files must be ${(maxFileSize / 1024 / 1024).toFixed(0)} MB or smaller`);
+      }
+
+      const filePath = await uploadResourceFile(file, user.id).done;
+
+      const { data, error } = await supabase.rpc("replace_resource_file", {
+        _resource_id: resourceId,
+        _file_path: filePath,
+        _file_type: getFileType(file),
+        _file_size: file.size,
+      });
+
+      if (error) {
+        await removeResourceFile(filePath).catch(() => undefined);
+        throw error;
+      }
+
+      return data;
+    },
+    onSuccess: (_version, { resourceId }) => invalidateResourceFile(queryClient, resourceId),
+  });
+}
+
+export function useRestoreResourceVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ versionId }: { resourceId: string; versionId: string }) => {
+      const { data, error } = await supabase.rpc("restore_resource_version", { _version_id: versionId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_version, { resourceId }) => invalidateResourceFile(queryClient, resourceId),
+  });
+}
+
+export interface ResourceMetadata {
+  title: string;
+  description: string | null;
+  category_id: string | null;
+  // null makes the resource visible to everyone
+  class_id: string | null;
+}
+
+// Edits are written to the audit log by a trigger on resources
+export function useUpdateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, metadata }: { resourceId: string; metadata: ResourceMetadata }) => {
+      // .single() turns an update the policies silently skipped into an error
+      const { error } = await supabase.from("resources").update(metadata).eq("id", resourceId).select("id").single();
+      if (error) throw error;
+    },
+    onSuccess: (_data, { resourceId }) => {
+      queryClient.invalidateQueries({ queryKey: ["resource", resourceId] });
+      queryClient.invalidateQueries({ queryKey: ["resources"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+    },
+  });
+}
+
+export type ResourceEvent = "view" | "download";
+
+// Counters are bumped server-side; the returned total is patched into every
+// cached feed page so the grid updates without refetching all loaded pages.
+export function useRecordResourceEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, event }: { resourceId: string; event: ResourceEvent }) => {
+      const { data, error } =
+        event === "view"
+          ? await supabase.rpc("record_view", { _resource_id: resourceId })
+          : await supabase.rpc("record_download", { _resource_id: resourceId });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count, { resourceId, event }) => {
+      const field = event === "view" ? "view_count" : "download_count";
+
+      queryClient.setQueryData<ResourceDetails | null>(["resource", resourceId], (resource) =>
+        resource ? { ...resource, [field]: count } : resource
+      );
+
+      queryClient.setQueriesData<InfiniteData<ResourcePage>>({ queryKey: ["resources"] }, (data) =>
+        data?.pages
+          ? {
+              ...data,
+              pages: data.pages.map((page) => ({
+                ...page,
+                items: page.items.map((item) => (item.id === resourceId ? { ...item, [field]: count } : item)),
+              })),
+            }
+          : data
+      );
+
+      if (event === "download") {
+        queryClient.invalidateQueries({ queryKey: ["downloads"] });
+      }
+    },
+  });
+}
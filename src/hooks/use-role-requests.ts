@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type RoleRequestStatus = "pending" | "approved" | "rejected";
+
+export interface RoleRequest {
+  id: string;
+  user_id: string;
+  requested_role: string;
+  message: string | null;
+  status: RoleRequestStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  requester: { full_name: string | null } | null;
+}
+
+const ROLE_REQUEST_COLUMNS = `
+  id,
+  user_id,
+  requested_role,
+  message,
+  status,
+  review_note,
+  reviewed_at,
+  created_at,
+  requester:profiles!role_requests_user_id_fkey (full_name)
+`;
+
+// The signed-in user's most recent request, if any
+export function useMyRoleRequest(userId: string | undefined) {
+  return useQuery({
+    queryKey: ["role-requests", "mine", userId],
+    enabled: !!userId,
+    queryFn: async (): Promise<RoleRequest | null> => {
+      const { data, error } = await supabase
+        .from("role_requests")
+        .select(ROLE_REQUEST_COLUMNS)
+        .eq("user_id", userId!)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as RoleRequest | null;
+    },
+  });
+}
+
+// Admins only: RLS hides other users' requests from everyone else
+export function usePendingRoleRequests() {
+  return useQuery({
+    queryKey: ["role-requests", "pending"],
+    queryFn: async (): Promise<RoleRequest[]> => {
+      const { data, error } = await supabase
+        .from("role_requests")
+        .select(ROLE_REQUEST_COLUMNS)
+        .eq("status", "pending")
+        .order("created_at");
+
+      if (error) throw error;
+      return (data || []) as RoleRequest[];
+    },
+  });
+}
+
+export function useRequestTeacherRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (message: string) => {
+      const { data, error } = await supabase.rpc("request_teacher_role", { _message: message });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["role-requests"] }),
+  });
+}
+
+export function useReviewRoleRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ requestId, approve, note }: { requestId: string; approve: boolean; note?: string }) => {
+      const { error } = await supabase.rpc("review_role_request", {
+        _request_id: requestId,
+        _approve: approve,
+        _note: note,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["role-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+    },
+  });
+}
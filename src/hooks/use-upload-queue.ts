@@ -0,0 +1,188 @@
+import { useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  ResourceUpload,
+  UploadCancelledError,
+  removeResourceFile,
+  uploadResourceFile,
+} from "@/integrations/supabase/storage";
+import { getFileType } from "@/lib/file-type";
+
+// How many files are sent at the same time
+const MAX_CONCURRENT_UPLOADS = 3;
+
+export type UploadQueueStatus = "queued" | "uploading" | "paused" | "done" | "failed";
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  title: string;
+  description: string;
+  categoryId: string;
+  status: UploadQueueStatus;
+  bytesUploaded: number;
+  error: string | null;
+}
+
+export interface UploadQueueSummary {
+  succeeded: number;
+  failed: number;
+}
+
+export type UploadQueueChanges = Partial<Pick<UploadQueueItem, "title" | "description" | "categoryId">>;
+
+interface UploadQueueOptions {
+  userId: string | undefined;
+  // null makes the uploads visible to everyone
+  classId: string | null;
+}
+
+// "unit_3-fractions.pdf" -> "unit 3 fractions"
+export const titleFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").replace(/\s+/g, " ").trim();
+
+export function useUploadQueue({ userId, classId }: UploadQueueOptions) {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const uploads = useRef(new Map<string, ResourceUpload>());
+
+  // Workers read titles and descriptions when they reach an item, so edits
+  // made while earlier files are uploading still count
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const patchItem = (id: string, changes: Partial<UploadQueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const addFiles = (files: File[]) => {
+    setItems((current) => [
+      ...current,
+      ...files.map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        title: titleFromFileName(file.name),
+        description: "",
+        categoryId: "",
+        status: "queued" as const,
+        bytesUploaded: 0,
+        error: null,
+      })),
+    ]);
+  };
+
+  const updateItem = (id: string, changes: UploadQueueChanges) => patchItem(id, changes);
+
+  const removeItem = (id: string) => {
+    setItems((current) => current.filter((item) => item.id !== id));
+  };
+
+  const clearFinished = () => {
+    setItems((current) => current.filter((item) => item.status !== "done"));
+  };
+
+  const uploadItem = async (id: string, maxFileSize: number) => {
+    const item = itemsRef.current.find((entry) => entry.id === id);
+    // Removed from the queue while earlier files were uploading
+    if (!item) return null;
+    if (!userId) return false;
+
+    try {
+      if (!item.title.trim()) throw new Error("Title is required");
+      if (item.file.size > maxFileSize) {
+        throw new Error(`Files must be ${(maxFileSize / 1024 / 1024).toFixed(0)} MB or smaller`);
+      }
+
+      patchItem(id, { status: "uploading", bytesUploaded: 0, error: null });
+
+      const upload = uploadResourceFile(item.file, userId, (bytesUploaded) => patchItem(id, { bytesUploaded }));
+      uploads.current.set(id, upload);
+      const filePath = await upload.done;
+
+      // Pick up metadata edits made while the file was uploading
+      const latest = itemsRef.current.find((entry) => entry.id === id) ?? item;
+
+      const { error } = await supabase.from("resources").insert({
+        title: latest.title,
+        description: latest.description,
+        category_id: latest.categoryId || null,
+        class_id: classId,
+        file_path: filePath,
+        file_type: getFileType(item.file),
+        file_size: item.file.size,
+        uploaded_by: userId,
+      });
+
+      if (error) {
+        // Don't leave a file behind that no resource points at
+        await removeResourceFile(filePath).catch(() => undefined);
+        throw error;
+      }
+
+      patchItem(id, { status: "done", bytesUploaded: item.file.size });
+      return true;
+    } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        removeItem(id);
+        return null;
+      }
+
+      patchItem(id, { status: "failed", error: (error as Error).message });
+      return false;
+    } finally {
+      uploads.current.delete(id);
+    }
+  };
+
+  // Uploads every queued or failed item, a few at a time
+  const start = async (): Promise<UploadQueueSummary> => {
+    const summary = { succeeded: 0, failed: 0 };
+    if (!userId) return summary;
+
+    const pending = itemsRef.current
+      .filter((item) => item.status === "queued" || item.status === "failed")
+      .map((item) => item.id);
+
+    setRunning(true);
+    try {
+      const { data: maxFileSize, error } = await supabase.rpc("max_upload_size", { _user_id: userId });
+      if (error) throw error;
+
+      let next = 0;
+      const worker = async () => {
+        while (next < pending.length) {
+          const result = await uploadItem(pending[next++], maxFileSize);
+          if (result === true) summary.succeeded++;
+          if (result === false) summary.failed++;
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, pending.length) }, worker)
+      );
+    } finally {
+      setRunning(false);
+    }
+
+    return summary;
+  };
+
+  const pause = (id: string) => {
+    uploads.current.get(id)?.pause();
+    patchItem(id, { status: "paused" });
+  };
+
+  const resume = (id: string) => {
+    uploads.current.get(id)?.resume();
+    patchItem(id, { status: "uploading" });
+  };
+
+  const cancel = (id: string) => {
+    uploads.current
+      .get(id)
+      ?.cancel()
+      .catch((error: Error) => patchItem(id, { status: "failed", error: error.message }));
+  };
+
+  return { items, running, addFiles, updateItem, removeItem, clearFinished, start, pause, resume, cancel };
+}
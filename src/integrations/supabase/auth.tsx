@@ -1,12 +1,35 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "./client";
+import { Database } from "./types";
 import { useNavigate } from "react-router-dom";
 
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Keys of public.permissions; which roles hold them is configured by admins
+export type Permission =
+  | "resource.upload"
+  | "resource.edit_any"
+  | "resource.delete_any"
+  | "category.manage"
+  | "course.create"
+  | "course.manage_any"
+  | "class.create"
+  | "analytics.view"
+  | "analytics.view_all"
+  | "users.manage";
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
-  userRole: string | null;
+  // Every role the user holds; empty while signed out, and for accounts
+  // that have no role or have been deactivated
+  roles: AppRole[];
+  hasRole: (role: AppRole) => boolean;
+  hasAnyRole: (roles: AppRole[]) => boolean;
+  // Everything the user's roles allow; admins always hold every permission
+  permissions: Permission[];
+  refreshRoles: () => Promise<void>;
   loading: boolean;
   signOut: () => Promise<void>;
 }
@@ -14,7 +37,11 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
-  userRole: null,
+  roles: [],
+  hasRole: () => false,
+  hasAnyRole: () => false,
+  permissions: [],
+  refreshRoles: async () => {},
   loading: true,
   signOut: async () => {},
 });
@@ -24,8 +51,10 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [userRole, setUserRole] = useState<string | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
+  const rolesUserIdRef = useRef<string | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -35,13 +64,20 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Fetch user role when session changes
+        // Fetch user role when session changes. A newly signed-in user stays
+        // loading until their roles arrive, so routes don't flash PendingAccess.
         if (session?.user) {
+          if (session.user.id !== rolesUserIdRef.current) {
+            rolesUserIdRef.current = session.user.id;
+            setLoading(true);
+          }
           setTimeout(() => {
-            fetchUserRole(session.user.id);
+            fetchUserRoles(session.user.id);
           }, 0);
         } else {
-          setUserRole(null);
+          rolesUserIdRef.current = null;
+          setRoles([]);
+          setPermissions([]);
           setLoading(false);
         }
       }
@@ -53,7 +89,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        fetchUserRole(session.user.id);
+        rolesUserIdRef.current = session.user.id;
+        fetchUserRoles(session.user.id);
       } else {
         setLoading(false);
       }
@@ -62,38 +99,58 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const fetchUserRole = async (userId: string) => {
+  const fetchUserRoles = async (userId: string) => {
+    let nextRoles: AppRole[] = [];
+    let nextPermissions: Permission[] = [];
+
     try {
-      const { data, error } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", userId)
-        .single();
+      const [rolesResult, profileResult, permissionsResult] = await Promise.all([
+        supabase.from("user_roles").select("role").eq("user_id", userId),
+        supabase.from("profiles").select("is_active").eq("user_id", userId).maybeSingle(),
+        supabase.rpc("get_my_permissions"),
+      ]);
 
+      const error = rolesResult.error ?? profileResult.error ?? permissionsResult.error;
       if (error) {
-        console.error("Error fetching user role:", error);
-        setUserRole(null);
-      } else {
-        setUserRole(data?.role || null);
+        console.error("Error fetching user roles:", error);
+      } else if (!profileResult.data || profileResult.data.is_active) {
+        // Deactivated accounts keep their roles but may not use them
+        nextRoles = (rolesResult.data || []).map(({ role }) => role);
+        nextPermissions = (permissionsResult.data || []) as Permission[];
       }
     } catch (err) {
-      console.error("Error fetching user role:", err);
-      setUserRole(null);
-    } finally {
-      setLoading(false);
+      console.error("Error fetching user roles:", err);
     }
+
+    // The session moved on to another user, or none, while this was in flight
+    if (userId !== rolesUserIdRef.current) return;
+
+    setRoles(nextRoles);
+    setPermissions(nextPermissions);
+    setLoading(false);
   };
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    rolesUserIdRef.current = null;
     setUser(null);
     setSession(null);
-    setUserRole(null);
+    setRoles([]);
+    setPermissions([]);
     navigate("/auth");
   };
 
+  const hasRole = (role: AppRole) => roles.includes(role);
+  const hasAnyRole = (anyOf: AppRole[]) => anyOf.some((role) => roles.includes(role));
+
+  const refreshRoles = async () => {
+    if (user) await fetchUserRoles(user.id);
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, userRole, loading, signOut }}>
+    <AuthContext.Provider
+      value={{ user, session, roles, hasRole, hasAnyRole, permissions, refreshRoles, loading, signOut }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,146 @@
+import * as tus from "tus-js-client";
+import { supabase } from "./client";
+
+export const RESOURCE_BUCKET = "learning-resources";
+
+const RESUMABLE_UPLOAD_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+// Supabase Storage only accepts 6 MB TUS chunks
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Delays between automatic retries of a failed chunk, doubling each time
+const UPLOAD_RETRY_DELAYS = [0, 1000, 2000, 4000, 8000, 16000, 32000];
+
+// Signed URLs only need to outlive the redirect or download they start
+const SIGNED_URL_EXPIRES_IN = 60;
+
+// Embedded viewers keep fetching (video ranges, PDF pages) while open
+export const VIEWER_URL_EXPIRES_IN = 60 * 60;
+
+export const getResourceFileUrl = async (
+  filePath: string,
+  downloadAs?: string,
+  expiresIn = SIGNED_URL_EXPIRES_IN
+) => {
+  const { data, error } = await supabase.storage
+    .from(RESOURCE_BUCKET)
+    .createSignedUrl(filePath, expiresIn, downloadAs ? { download: downloadAs } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// The tab is opened before the URL is signed so popup blockers still treat it
+// as a direct response to the click.
+export const openResourceFile = async (filePath: string) => {
+  const tab = window.open("", "_blank");
+
+  try {
+    const url = await getResourceFileUrl(filePath);
+    if (tab) {
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+};
+
+// Deleting a resource row queues its file for cleanup; removing the object
+// here clears that entry, and whatever fails is purged by reconcile-storage
+export const removeResourceFile = async (filePath: string) => {
+  const { error } = await supabase.storage.from(RESOURCE_BUCKET).remove([filePath]);
+  if (error) throw error;
+};
+
+export const downloadResourceFile = async (filePath: string, title: string) => {
+  const extension = filePath.includes(".") ? filePath.slice(filePath.lastIndexOf(".")) : "";
+  const url = await getResourceFileUrl(filePath, `${title}${extension}`);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.click();
+};
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
+
+export interface ResourceUpload {
+  // Resolves with the object path once every chunk is stored
+  done: Promise<string>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => Promise<void>;
+}
+
+// Uploads a file into the user's folder in chunks over TUS. A file that was
+// interrupted earlier (closed tab, lost connection) continues from its last
+// stored chunk instead of starting over.
+export const uploadResourceFile = (
+  file: File,
+  userId: string,
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void
+): ResourceUpload => {
+  const fileExt = file.name.split(".").pop();
+  let filePath = `${userId}/${crypto.randomUUID()}.${fileExt}`;
+  let rejectDone: (error: Error) => void;
+
+  const upload = new tus.Upload(file, {
+    endpoint: RESUMABLE_UPLOAD_ENDPOINT,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    retryDelays: UPLOAD_RETRY_DELAYS,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      "x-upsert": "false",
+    },
+    metadata: {
+      bucketName: RESOURCE_BUCKET,
+      objectName: filePath,
+      contentType: file.type,
+      cacheControl: "3600",
+    },
+    // Long uploads can outlive an access token, so sign every request fresh
+    onBeforeRequest: async (req) => {
+      const { data } = await supabase.auth.getSession();
+      req.setHeader("authorization", `Bearer ${data.session?.access_token}`);
+    },
+    onProgress,
+  });
+
+  const done = new Promise<string>((resolve, reject) => {
+    rejectDone = reject;
+    upload.options.onSuccess = () => resolve(filePath);
+    upload.options.onError = reject;
+  });
+
+  upload.findPreviousUploads().then((previousUploads) => {
+    const previous = previousUploads.find((item) => item.metadata.objectName?.startsWith(`${userId}/`));
+    if (previous) {
+      filePath = previous.metadata.objectName;
+      upload.resumeFromPreviousUpload(previous);
+    }
+    upload.start();
+  }, rejectDone);
+
+  return {
+    done,
+    pause: () => {
+      upload.abort();
+    },
+    resume: () => upload.start(),
+    cancel: async () => {
+      rejectDone(new UploadCancelledError());
+      // Terminating frees the partial upload on the server; if that request
+      // fails, the unfinished upload expires on the server
+      await upload.abort(true).catch(() => undefined);
+    },
+  };
+};
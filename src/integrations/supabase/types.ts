@@ -14,54 +14,442 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          entity_id: string | null
+          entity_type: string
+          id: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "audit_log_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
           description: string | null
           id: string
           name: string
+          parent_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          join_code: string
+          name: string
+          teacher_id: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
           description?: string | null
           id?: string
+          join_code?: string
           name: string
+          teacher_id: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
           description?: string | null
           id?: string
+          join_code?: string
           name?: string
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      course_modules: {
+        Row: {
+          course_id: string
+          created_at: string
+          description: string | null
+          id: string
+          position: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          position?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          position?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_modules_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          is_published: boolean
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      enrollments: {
+        Row: {
+          class_id: string
+          enrolled_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          class_id: string
+          enrolled_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          class_id?: string
+          enrolled_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      module_items: {
+        Row: {
+          created_at: string
+          id: string
+          module_id: string
+          position: number
+          resource_id: string
+          title: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          module_id: string
+          position?: number
+          resource_id: string
+          title?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          module_id?: string
+          position?: number
+          resource_id?: string
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "module_items_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "course_modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "module_items_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      permissions: {
+        Row: {
+          created_at: string
+          description: string
+          key: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          key: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          key?: string
         }
         Relationships: []
       }
       profiles: {
         Row: {
+          analytics_digest_enabled: boolean
+          analytics_digest_sent_at: string | null
           avatar_url: string | null
           created_at: string
+          deactivated_at: string | null
           full_name: string | null
           id: string
+          is_active: boolean
           updated_at: string
           user_id: string
         }
         Insert: {
+          analytics_digest_enabled?: boolean
+          analytics_digest_sent_at?: string | null
           avatar_url?: string | null
           created_at?: string
+          deactivated_at?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean
           updated_at?: string
           user_id: string
         }
         Update: {
+          analytics_digest_enabled?: boolean
+          analytics_digest_sent_at?: string | null
           avatar_url?: string | null
           created_at?: string
+          deactivated_at?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      resource_downloads: {
+        Row: {
+          downloaded_at: string
+          id: string
+          resource_id: string
+          user_id: string | null
+        }
+        Insert: {
+          downloaded_at?: string
+          id?: string
+          resource_id: string
+          user_id?: string | null
+        }
+        Update: {
+          downloaded_at?: string
+          id?: string
+          resource_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_downloads_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_progress: {
+        Row: {
+          completed: boolean
+          completed_at: string | null
+          created_at: string
+          duration_seconds: number | null
+          id: string
+          percent_watched: number
+          position_seconds: number
+          resource_id: string
+          updated_at: string
+          user_id: string
+          watched_ranges: unknown
+        }
+        Insert: {
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          percent_watched?: number
+          position_seconds?: number
+          resource_id: string
+          updated_at?: string
+          user_id: string
+          watched_ranges?: unknown
+        }
+        Update: {
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          percent_watched?: number
+          position_seconds?: number
+          resource_id?: string
+          updated_at?: string
+          user_id?: string
+          watched_ranges?: unknown
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_progress_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_versions: {
+        Row: {
+          file_path: string
+          file_size: number | null
+          file_type: string
+          id: string
+          replaced_at: string
+          replaced_by: string | null
+          resource_id: string
+          uploaded_at: string
+          version_number: number
+        }
+        Insert: {
+          file_path: string
+          file_size?: number | null
+          file_type: string
+          id?: string
+          replaced_at?: string
+          replaced_by?: string | null
+          resource_id: string
+          uploaded_at: string
+          version_number: number
+        }
+        Update: {
+          file_path?: string
+          file_size?: number | null
+          file_type?: string
+          id?: string
+          replaced_at?: string
+          replaced_by?: string | null
+          resource_id?: string
+          uploaded_at?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_versions_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resource_views: {
         Row: {
           id: string
@@ -94,45 +482,57 @@ export type Database = {
       resources: {
         Row: {
           category_id: string | null
+          class_id: string | null
           created_at: string
+          current_version: number
           description: string | null
-          download_count: number | null
+          download_count: number
+          file_path: string
           file_size: number | null
           file_type: string
-          file_url: string
+          file_updated_at: string | null
           id: string
+          search_vector: unknown | null
           title: string
           updated_at: string
           uploaded_by: string
-          view_count: number | null
+          view_count: number
         }
         Insert: {
           category_id?: string | null
+          class_id?: string | null
           created_at?: string
+          current_version?: number
           description?: string | null
-          download_count?: number | null
+          download_count?: number
+          file_path: string
           file_size?: number | null
           file_type: string
-          file_url: string
+          file_updated_at?: string | null
           id?: string
+          search_vector?: never
           title: string
           updated_at?: string
           uploaded_by: string
-          view_count?: number | null
+          view_count?: number
         }
         Update: {
           category_id?: string | null
+          class_id?: string | null
           created_at?: string
+          current_version?: number
           description?: string | null
-          download_count?: number | null
+          download_count?: number
+          file_path?: string
           file_size?: number | null
           file_type?: string
-          file_url?: string
+          file_updated_at?: string | null
           id?: string
+          search_vector?: never
           title?: string
           updated_at?: string
           uploaded_by?: string
-          view_count?: number | null
+          view_count?: number
         }
         Relationships: [
           {
@@ -142,8 +542,138 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "resources_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resources_uploaded_by_profiles_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      role_requests: {
+        Row: {
+          created_at: string
+          id: string
+          message: string | null
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          requested_role?: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          requested_role?: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "role_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      role_upload_limits: {
+        Row: {
+          max_file_size: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        Insert: {
+          max_file_size: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Update: {
+          max_file_size?: number
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      storage_cleanup_queue: {
+        Row: {
+          bucket_id: string
+          id: string
+          object_name: string
+          queued_at: string
+        }
+        Insert: {
+          bucket_id: string
+          id?: string
+          object_name: string
+          queued_at?: string
+        }
+        Update: {
+          bucket_id?: string
+          id?: string
+          object_name?: string
+          queued_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -170,6 +700,82 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      analytics_digest_entries: {
+        Args: { _end: string; _start: string }
+        Returns: {
+          downloads: number
+          email: string
+          full_name: string
+          resource_id: string
+          title: string
+          total_views: number
+          user_id: string
+          views: number
+        }[]
+      }
+      analytics_resource_ids: {
+        Args: { _category_id: string; _resource_id?: string; _uploaded_by: string }
+        Returns: string[]
+      }
+      analytics_summary: {
+        Args: { _category_id?: string; _uploaded_by?: string }
+        Returns: {
+          total_downloads: number
+          total_resources: number
+          total_views: number
+        }[]
+      }
+      can_edit_resource: {
+        Args: { _resource_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_course: {
+        Args: { _course_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_course: {
+        Args: { _course_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_resource: {
+        Args: { _resource_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_resource_analytics: {
+        Args: { _resource_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_resource_object: {
+        Args: { _object_name: string; _user_id: string }
+        Returns: boolean
+      }
+      category_resource_counts: {
+        Args: never
+        Returns: {
+          category_id: string
+          resource_count: number
+        }[]
+      }
+      category_subtree: { Args: { _category_id: string }; Returns: string[] }
+      find_orphaned_storage_objects: {
+        Args: { _older_than?: unknown }
+        Returns: {
+          created_at: string
+          object_name: string
+          queued: boolean
+          size: number
+        }[]
+      }
+      generate_join_code: { Args: never; Returns: string }
+      get_my_permissions: { Args: never; Returns: string[] }
+      grant_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"]; _user_id: string }
+        Returns: undefined
+      }
+      has_permission: {
+        Args: { _permission: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -177,6 +783,231 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_class_teacher: {
+        Args: { _class_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_enrolled: {
+        Args: { _class_id: string; _user_id: string }
+        Returns: boolean
+      }
+      join_class: { Args: { _join_code: string }; Returns: string }
+      log_audit_event: {
+        Args: {
+          _action: string
+          _details?: Json
+          _entity_id?: string
+          _entity_type: string
+          _target_user_id?: string
+        }
+        Returns: undefined
+      }
+      max_upload_size: { Args: { _user_id: string }; Returns: number }
+      merge_categories: {
+        Args: { _source_id: string; _target_id: string }
+        Returns: number
+      }
+      prune_storage_cleanup_queue: { Args: never; Returns: number }
+      record_download: { Args: { _resource_id: string }; Returns: number }
+      record_view: { Args: { _resource_id: string }; Returns: number }
+      regenerate_join_code: { Args: { _class_id: string }; Returns: string }
+      reorder_course_modules: {
+        Args: { _course_id: string; _module_ids: string[] }
+        Returns: undefined
+      }
+      reorder_module_items: {
+        Args: { _item_ids: string[]; _module_id: string }
+        Returns: undefined
+      }
+      replace_resource_file: {
+        Args: {
+          _file_path: string
+          _file_size: number
+          _file_type: string
+          _resource_id: string
+        }
+        Returns: number
+      }
+      request_teacher_role: { Args: { _message?: string }; Returns: string }
+      reset_profile: { Args: { _user_id: string }; Returns: undefined }
+      resource_analytics_summary: {
+        Args: { _end: string; _resource_id: string; _start: string }
+        Returns: {
+          downloads: number
+          repeat_viewers: number
+          unique_viewers: number
+          views: number
+        }[]
+      }
+      resource_metrics: {
+        Args: {
+          _category_id?: string
+          _end: string
+          _start: string
+          _uploaded_by?: string
+        }
+        Returns: {
+          category_name: string
+          created_at: string
+          downloads: number
+          file_type: string
+          id: string
+          title: string
+          total_downloads: number
+          total_views: number
+          unique_viewers: number
+          uploader_name: string
+          views: number
+        }[]
+      }
+      resource_traffic_by_hour: {
+        Args: {
+          _end: string
+          _resource_id: string
+          _start: string
+          _time_zone?: string
+        }
+        Returns: {
+          day_of_week: number
+          hour: number
+          views: number
+        }[]
+      }
+      resource_viewers: {
+        Args: { _end: string; _resource_id: string; _start: string }
+        Returns: {
+          first_viewed_at: string
+          full_name: string
+          last_viewed_at: string
+          user_id: string
+          view_count: number
+        }[]
+      }
+      resources_by_category: {
+        Args: { _category_id?: string; _uploaded_by?: string }
+        Returns: {
+          category_id: string
+          category_name: string
+          download_count: number
+          resource_count: number
+          view_count: number
+        }[]
+      }
+      restore_resource_version: {
+        Args: { _version_id: string }
+        Returns: number
+      }
+      review_role_request: {
+        Args: { _approve: boolean; _note?: string; _request_id: string }
+        Returns: undefined
+      }
+      revoke_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"]; _user_id: string }
+        Returns: undefined
+      }
+      save_resource_progress: {
+        Args: {
+          _duration_seconds: number
+          _position_seconds: number
+          _resource_id: string
+          _watched_ranges?: Json
+        }
+        Returns: undefined
+      }
+      search_resources: {
+        Args: {
+          _category_id?: string
+          _file_type?: string
+          _limit?: number
+          _offset?: number
+          _query?: string
+          _sort?: string
+        }
+        Returns: {
+          category_id: string
+          category_name: string
+          created_at: string
+          file_updated_at: string
+          description: string
+          description_snippet: string
+          download_count: number
+          file_path: string
+          file_size: number
+          file_type: string
+          id: string
+          rank: number
+          title: string
+          title_highlight: string
+          total_count: number
+          uploader_name: string
+          view_count: number
+        }[]
+      }
+      set_role_permission: {
+        Args: {
+          _granted: boolean
+          _permission: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: undefined
+      }
+      set_user_active: {
+        Args: { _active: boolean; _user_id: string }
+        Returns: undefined
+      }
+      to_prefix_tsquery: { Args: { _query: string }; Returns: unknown }
+      top_resources: {
+        Args: { _category_id?: string; _limit?: number; _uploaded_by?: string }
+        Returns: {
+          download_count: number
+          id: string
+          title: string
+          view_count: number
+        }[]
+      }
+      user_activity: {
+        Args: {
+          _category_id?: string
+          _end: string
+          _start: string
+          _uploaded_by?: string
+        }
+        Returns: {
+          downloads: number
+          full_name: string
+          last_active_at: string
+          resources_viewed: number
+          roles: string
+          user_id: string
+          views: number
+        }[]
+      }
+      video_completion: {
+        Args: { _category_id?: string; _uploaded_by?: string }
+        Returns: {
+          average_percent: number
+          completed: number
+          id: string
+          title: string
+          viewers: number
+        }[]
+      }
+      views_by_day: {
+        Args: {
+          _bucket?: string
+          _category_id?: string
+          _end: string
+          _resource_id?: string
+          _start: string
+          _time_zone?: string
+          _uploaded_by?: string
+        }
+        Returns: {
+          bucket_start: string
+          downloads: number
+          views: number
+        }[]
+      }
     }
     Enums: {
       app_role: "student" | "teacher" | "admin"
@@ -0,0 +1,108 @@
+import { format, subDays } from "date-fns";
+import { Database } from "@/integrations/supabase/types";
+import { ExportSheet } from "@/lib/export";
+
+type Functions = Database["public"]["Functions"];
+type ResourceMetric = Functions["resource_metrics"]["Returns"][number];
+type UserActivity = Functions["user_activity"]["Returns"][number];
+type TrendRow = Pick<Functions["views_by_day"]["Returns"][number], "bucket_start" | "views" | "downloads">;
+
+interface ExportRange {
+  start: Date;
+  end: Date;
+}
+
+const formatDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+const formatTimestamp = (timestamp: string | null) =>
+  timestamp ? format(new Date(timestamp), "yyyy-MM-dd HH:mm") : null;
+
+// e.g. "analytics_2025-09-01_2025-09-30"; the range end is exclusive
+export const exportFilename = (prefix: string, { start, end }: ExportRange) =>
+  `${prefix}_${formatDay(start)}_${formatDay(subDays(end, 1))}`;
+
+const sum = (metrics: ResourceMetric[], key: "views" | "downloads" | "total_views" | "total_downloads") =>
+  metrics.reduce((total, metric) => total + metric[key], 0);
+
+// The figures of the summary cards, for the range as well as all time
+export const summarySheet = (scopeLabel: string, range: ExportRange, metrics: ResourceMetric[]): ExportSheet => {
+  const views = sum(metrics, "views");
+
+  return {
+    name: "Summary",
+    rows: [
+      { Metric: "Scope", Value: scopeLabel },
+      { Metric: "From", Value: formatDay(range.start) },
+      { Metric: "To", Value: formatDay(subDays(range.end, 1)) },
+      { Metric: "Resources", Value: metrics.length },
+      { Metric: "Views", Value: views },
+      { Metric: "Downloads", Value: sum(metrics, "downloads") },
+      {
+        Metric: "Views per resource",
+        Value: metrics.length > 0 ? Math.round((views / metrics.length) * 10) / 10 : 0,
+      },
+      { Metric: "Views (all time)", Value: sum(metrics, "total_views") },
+      { Metric: "Downloads (all time)", Value: sum(metrics, "total_downloads") },
+    ],
+  };
+};
+
+export const categorySheet = (metrics: ResourceMetric[]): ExportSheet => {
+  const categories = new Map<string, { resources: number; views: number; downloads: number }>();
+
+  metrics.forEach((metric) => {
+    const category = categories.get(metric.category_name) ?? { resources: 0, views: 0, downloads: 0 };
+    categories.set(metric.category_name, {
+      resources: category.resources + 1,
+      views: category.views + metric.views,
+      downloads: category.downloads + metric.downloads,
+    });
+  });
+
+  return {
+    name: "Categories",
+    rows: Array.from(categories, ([name, category]) => ({
+      Category: name,
+      Resources: category.resources,
+      Views: category.views,
+      Downloads: category.downloads,
+    })).sort((a, b) => b.Views - a.Views || a.Category.localeCompare(b.Category)),
+  };
+};
+
+export const dailyTrendSheet = (trends: TrendRow[]): ExportSheet => ({
+  name: "Daily trends",
+  rows: trends.map((point) => ({
+    Date: formatDay(new Date(point.bucket_start)),
+    Views: point.views,
+    Downloads: point.downloads,
+  })),
+});
+
+export const resourceSheet = (metrics: ResourceMetric[]): ExportSheet => ({
+  name: "Resources",
+  rows: metrics.map((metric) => ({
+    Title: metric.title,
+    Type: metric.file_type,
+    Category: metric.category_name,
+    "Uploaded by": metric.uploader_name || "Unknown User",
+    "Uploaded on": formatTimestamp(metric.created_at),
+    Views: metric.views,
+    Downloads: metric.downloads,
+    "Unique viewers": metric.unique_viewers,
+    "Views (all time)": metric.total_views,
+    "Downloads (all time)": metric.total_downloads,
+  })),
+});
+
+export const userActivitySheet = (activity: UserActivity[]): ExportSheet => ({
+  name: "User activity",
+  rows: activity.map((row) => ({
+    Name: row.full_name || "Unknown User",
+    Roles: row.roles,
+    Views: row.views,
+    Downloads: row.downloads,
+    "Resources viewed": row.resources_viewed,
+    "Last active": formatTimestamp(row.last_active_at),
+  })),
+});
@@ -0,0 +1,66 @@
+export type ExportValue = string | number | null;
+
+// One table of an export; the keys of the first row become the column headers
+export interface ExportSheet {
+  name: string;
+  rows: Record<string, ExportValue>[];
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCell = (value: ExportValue) => {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (sheets: ExportSheet[]) =>
+  sheets
+    .map(({ name, rows }) => {
+      const headers = rows.length ? Object.keys(rows[0]) : [];
+      const lines = [toCell(name), headers.map(toCell).join(",")];
+      rows.forEach((row) => lines.push(headers.map((header) => toCell(row[header] ?? null)).join(",")));
+      return lines.join("\r\n");
+    })
+    .join("\r\n\r\n");
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// CSV has no sheets, so each one becomes a titled section of the file
+export const downloadCsv = (filename: string, sheets: ExportSheet[]) =>
+  // The byte order mark makes Excel read the file as UTF-8
+  saveBlob(new Blob(["\uFEFF", toCsv(sheets)], { type: "text/csv;charset=utf-8" }), `${filename}.csv`);
+
+export const downloadXlsx = async (filename: string, sheets: ExportSheet[]) => {
+  // Loaded on demand, the library is large and only needed here
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+
+  sheets.forEach(({ name, rows }) => {
+    // Excel limits sheet names to 31 characters
+    const sheet = workbook.addWorksheet(name.slice(0, 31));
+    const headers = rows.length ? Object.keys(rows[0]) : [];
+    sheet.addRow(headers);
+    rows.forEach((row) => sheet.addRow(headers.map((header) => row[header] ?? null)));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  saveBlob(new Blob([buffer], { type: XLSX_TYPE }), `${filename}.xlsx`);
+};
+
+export const downloadExport = (format: ExportFormat, filename: string, sheets: ExportSheet[]) =>
+  format === "csv" ? downloadCsv(filename, sheets) : downloadXlsx(filename, sheets);
@@ -0,0 +1,7 @@
+// The resources.file_type a file is stored under
+export const getFileType = (file: File): string => {
+  if (file.type.startsWith("video/")) return "video";
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type === "application/pdf") return "pdf";
+  return "other";
+};
@@ -1,104 +1,134 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { format, subDays } from "date-fns";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { AnalyticsScopePicker } from "@/components/AnalyticsScopePicker";
+import { AnalyticsRangePicker } from "@/components/AnalyticsRangePicker";
+import { ExportMenu } from "@/components/ExportMenu";
+import { AnalyticsDigestCard } from "@/components/AnalyticsDigestCard";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from "recharts";
+import {
+  AnalyticsRange,
+  AnalyticsScope,
+  RangePreset,
+  TrendBucket,
+  formatBucket,
+  getPresetRange,
+  getPreviousRange,
+  useAnalyticsExportData,
+  useAnalyticsScopeOptions,
+  useAnalyticsSummary,
+  useResourcesByCategory,
+  useTopResources,
+  useVideoCompletion,
+  useViewsByDay,
+} from "@/hooks/use-analytics";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  categorySheet,
+  dailyTrendSheet,
+  exportFilename,
+  resourceSheet,
+  summarySheet,
+  userActivitySheet,
+} from "@/lib/analytics-export";
 import { Eye, Download, FileText, TrendingUp } from "lucide-react";
 
-interface CategoryStats {
-  name: string;
-  count: number;
-}
+const Analytics = () => {
+  const navigate = useNavigate();
+  const canViewAll = usePermission("analytics.view_all");
+  const [scope, setScope] = useState<AnalyticsScope>({ type: canViewAll ? "all" : "mine" });
+  const [preset, setPreset] = useState<RangePreset>("7d");
+  const [range, setRange] = useState<AnalyticsRange>(() => getPresetRange("7d"));
+  const [bucket, setBucket] = useState<TrendBucket>("day");
 
-interface ViewTrend {
-  date: string;
-  views: number;
-}
+  const { data: summary } = useAnalyticsSummary(scope);
+  const { data: categoryStats = [] } = useResourcesByCategory(scope);
+  const { data: trends = [] } = useViewsByDay(scope, range, bucket);
+  const { data: previousTrends = [] } = useViewsByDay(scope, getPreviousRange(range), bucket);
+  const { data: topResources = [] } = useTopResources(scope);
+  const { data: videoCompletion = [] } = useVideoCompletion(scope);
+  const { data: scopeOptions } = useAnalyticsScopeOptions();
+  const { fetchResourceMetrics, fetchDailyTrends, fetchUserActivity } = useAnalyticsExportData(scope, range);
 
-const Analytics = () => {
-  const [totalResources, setTotalResources] = useState(0);
-  const [totalViews, setTotalViews] = useState(0);
-  const [totalDownloads, setTotalDownloads] = useState(0);
-  const [categoryStats, setCategoryStats] = useState<CategoryStats[]>([]);
-  const [viewTrends, setViewTrends] = useState<ViewTrend[]>([]);
-  const [topResources, setTopResources] = useState<any[]>([]);
-
-  useEffect(() => {
-    fetchAnalytics();
-  }, []);
-
-  const fetchAnalytics = async () => {
-    // Total resources
-    const { count: resourceCount } = await supabase
-      .from("resources")
-      .select("*", { count: "exact", head: true });
-    setTotalResources(resourceCount || 0);
-
-    // Total views and downloads
-    const { data: resources } = await supabase
-      .from("resources")
-      .select("view_count, download_count");
-    
-    if (resources) {
-      const views = resources.reduce((sum, r) => sum + (r.view_count || 0), 0);
-      const downloads = resources.reduce((sum, r) => sum + (r.download_count || 0), 0);
-      setTotalViews(views);
-      setTotalDownloads(downloads);
-    }
+  const totalResources = summary?.total_resources ?? 0;
+  const totalViews = summary?.total_views ?? 0;
+  const totalDownloads = summary?.total_downloads ?? 0;
+  // Buckets line up by position with the same bucket of the previous period
+  const trendData = trends.map((point, index) => ({
+    date: formatBucket(point.bucket_start, bucket),
+    views: point.views,
+    downloads: point.downloads,
+    previousViews: previousTrends[index]?.views ?? 0,
+    previousDownloads: previousTrends[index]?.downloads ?? 0,
+  }));
+  const rangeLabel = `${format(range.start, "MMM d, yyyy")} – ${format(subDays(range.end, 1), "MMM d, yyyy")}`;
 
-    // Resources by category
-    const { data: categoryData } = await supabase
-      .from("resources")
-      .select(`
-        category_id,
-        categories (name)
-      `);
-
-    if (categoryData) {
-      const stats: Record<string, number> = {};
-      categoryData.forEach((item) => {
-        const categoryName = item.categories?.name || "Uncategorized";
-        stats[categoryName] = (stats[categoryName] || 0) + 1;
-      });
-      setCategoryStats(
-        Object.entries(stats).map(([name, count]) => ({ name, count }))
-      );
+  const scopeLabel = (() => {
+    switch (scope.type) {
+      case "mine":
+        return "My resources";
+      case "teacher":
+        return `Teacher: ${scopeOptions?.teachers.find((teacher) => teacher.id === scope.teacherId)?.name ?? "Unknown"}`;
+      case "category":
+        return `Category: ${scopeOptions?.categories.find((category) => category.id === scope.categoryId)?.name ?? "Unknown"}`;
+      default:
+        return "All resources";
     }
+  })();
 
-    // View trends (last 7 days)
-    const { data: viewData } = await supabase
-      .from("resource_views")
-      .select("viewed_at")
-      .gte("viewed_at", new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
-
-    if (viewData) {
-      const trends: Record<string, number> = {};
-      viewData.forEach((view) => {
-        const date = new Date(view.viewed_at).toLocaleDateString();
-        trends[date] = (trends[date] || 0) + 1;
-      });
-      setViewTrends(
-        Object.entries(trends).map(([date, views]) => ({ date, views }))
-      );
-    }
+  // Who did what is only exported for one's own uploads, or with analytics.view_all
+  const canExportActivity = scope.type === "mine" || canViewAll;
 
-    // Top resources
-    const { data: topData } = await supabase
-      .from("resources")
-      .select("title, view_count, download_count")
-      .order("view_count", { ascending: false })
-      .limit(5);
-    setTopResources(topData || []);
+  const getExportSheets = async () => {
+    const [metrics, dailyTrends, activity] = await Promise.all([
+      fetchResourceMetrics(),
+      fetchDailyTrends(),
+      canExportActivity ? fetchUserActivity() : Promise.resolve(null),
+    ]);
+
+    return [
+      summarySheet(scopeLabel, range, metrics),
+      categorySheet(metrics),
+      dailyTrendSheet(dailyTrends),
+      resourceSheet(metrics),
+      ...(activity ? [userActivitySheet(activity)] : []),
+    ];
   };
 
+  const openResource = (resourceId: string) => navigate(`/analytics/resources/${resourceId}`);
+
   const COLORS = ["hsl(var(--primary))", "hsl(var(--accent))", "hsl(var(--secondary))", "hsl(var(--success))", "hsl(var(--muted))"];
 
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">Analytics Dashboard</h1>
-          <p className="text-muted-foreground">Track resource usage and engagement</p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Analytics Dashboard</h1>
+            <p className="text-muted-foreground">
+              {scope.type === "mine"
+                ? "Track usage and engagement of your resources"
+                : "Track resource usage and engagement"}
+            </p>
+          </div>
+          <div className="flex flex-col lg:flex-row gap-2">
+            {canViewAll && <AnalyticsScopePicker value={scope} onChange={setScope} />}
+            <AnalyticsRangePicker
+              preset={preset}
+              range={range}
+              bucket={bucket}
+              onRangeChange={(nextPreset, nextRange) => {
+                setPreset(nextPreset);
+                setRange(nextRange);
+              }}
+              onBucketChange={setBucket}
+            />
+            <ExportMenu filename={exportFilename("analytics", range)} getSheets={getExportSheets} />
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -150,6 +180,62 @@ const Analytics = () => {
           </Card>
         </div>
 
+        <div className="grid gap-4 md:grid-cols-2">
+          {/* View Trends */}
+          <Card>
+            <CardHeader>
+              <CardTitle>View Trends</CardTitle>
+              <CardDescription>{rangeLabel}, compared with the previous period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis />
+                  <Tooltip />
+                  <Line type="monotone" dataKey="views" name="Views" stroke="hsl(var(--primary))" strokeWidth={2} />
+                  <Line
+                    type="monotone"
+                    dataKey="previousViews"
+                    name="Previous period"
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="5 5"
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Download Trends */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Download Trends</CardTitle>
+              <CardDescription>{rangeLabel}, compared with the previous period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis />
+                  <Tooltip />
+                  <Line type="monotone" dataKey="downloads" name="Downloads" stroke="hsl(var(--accent))" strokeWidth={2} />
+                  <Line
+                    type="monotone"
+                    dataKey="previousDownloads"
+                    name="Previous period"
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="5 5"
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </div>
+
         <div className="grid gap-4 md:grid-cols-2">
           {/* Resources by Category */}
           <Card>
@@ -162,13 +248,14 @@ const Analytics = () => {
                 <PieChart>
                   <Pie
                     data={categoryStats}
+                    nameKey="category_name"
                     cx="50%"
                     cy="50%"
                     labelLine={false}
                     label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
                     outerRadius={80}
                     fill="hsl(var(--primary))"
-                    dataKey="count"
+                    dataKey="resource_count"
                   >
                     {categoryStats.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
@@ -180,45 +267,93 @@ const Analytics = () => {
             </CardContent>
           </Card>
 
-          {/* View Trends */}
+          {/* Top Resources */}
           <Card>
             <CardHeader>
-              <CardTitle>View Trends</CardTitle>
-              <CardDescription>Last 7 days</CardDescription>
+              <CardTitle>Top Resources</CardTitle>
+              <CardDescription>Most viewed resources; click a bar for details</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={viewTrends}>
+                <BarChart data={topResources}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="date" />
+                  <XAxis dataKey="title" />
                   <YAxis />
                   <Tooltip />
-                  <Line type="monotone" dataKey="views" stroke="hsl(var(--primary))" strokeWidth={2} />
-                </LineChart>
+                  <Bar
+                    dataKey="view_count"
+                    fill="hsl(var(--primary))"
+                    name="Views"
+                    cursor="pointer"
+                    onClick={(bar) => openResource(bar.payload.id)}
+                  />
+                  <Bar
+                    dataKey="download_count"
+                    fill="hsl(var(--accent))"
+                    name="Downloads"
+                    cursor="pointer"
+                    onClick={(bar) => openResource(bar.payload.id)}
+                  />
+                </BarChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
         </div>
 
-        {/* Top Resources */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Top Resources</CardTitle>
-            <CardDescription>Most viewed resources</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={topResources}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="title" />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="view_count" fill="hsl(var(--primary))" name="Views" />
-                <Bar dataKey="download_count" fill="hsl(var(--accent))" name="Downloads" />
-              </BarChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
+        {/* Video Completion */}
+        {videoCompletion.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Video Completion</CardTitle>
+              <CardDescription>
+                Viewers who played at least 90% of each video; skipped parts are not counted
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Video</TableHead>
+                    <TableHead className="text-right">Started</TableHead>
+                    <TableHead className="text-right">Completed</TableHead>
+                    <TableHead className="w-1/4">Completion rate</TableHead>
+                    <TableHead className="text-right">Avg. watched</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {videoCompletion.map((video) => {
+                    const rate = video.viewers > 0 ? Math.round((video.completed / video.viewers) * 100) : 0;
+
+                    return (
+                      <TableRow key={video.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/analytics/resources/${video.id}`} className="hover:underline">
+                            {video.title}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{video.viewers}</TableCell>
+                        <TableCell className="text-right">{video.completed}</TableCell>
+                        <TableCell>
+                          {video.viewers > 0 ? (
+                            <div className="flex items-center gap-2">
+                              <Progress value={rate} className="h-2" />
+                              <span className="w-10 text-right text-sm">{rate}%</span>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Not watched yet</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{video.average_percent}%</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <AnalyticsDigestCard />
       </div>
     </DashboardLayout>
   );
@@ -29,35 +29,24 @@ const Auth = () => {
         password,
         options: {
           emailRedirectTo: `${window.location.origin}/dashboard`,
+          // The profile and student role are created by a database trigger;
+          // asking for teacher access opens a request for an admin to review
+          data: {
+            full_name: fullName,
+            requested_role: role === "teacher" ? "teacher" : undefined,
+          },
         },
       });
 
       if (authError) throw authError;
 
       if (authData.user) {
-        // Create profile
-        const { error: profileError } = await supabase
-          .from("profiles")
-          .insert({
-            user_id: authData.user.id,
-            full_name: fullName,
-          });
-
-        if (profileError) throw profileError;
-
-        // Assign role
-        const { error: roleError } = await supabase
-          .from("user_roles")
-          .insert([{
-            user_id: authData.user.id,
-            role: role as any,
-          }]);
-
-        if (roleError) throw roleError;
-
         toast({
           title: "Account created!",
-          description: "Welcome to the Learning Management System",
+          description:
+            role === "teacher"
+              ? "Your teacher access request will be reviewed by an administrator"
+              : "Welcome to the Learning Management System",
         });
 
         navigate("/dashboard");
@@ -200,8 +189,7 @@ const Auth = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="student">Student</SelectItem>
-                      <SelectItem value="teacher">Teacher</SelectItem>
-                      <SelectItem value="admin">Administrator</SelectItem>
+                      <SelectItem value="teacher">Teacher (requires approval)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
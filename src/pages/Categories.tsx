@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { CategoryFormDialog } from "@/components/CategoryFormDialog";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Category,
+  categorySubtreeIds,
+  flattenCategoryTree,
+  useCategories,
+  useCategoryResourceCounts,
+  useDeleteCategory,
+  useMergeCategories,
+} from "@/hooks/use-categories";
+import { FolderTree, GitMerge, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+const pluralize = (count: number, noun: string, plural = `${noun}s`) => `${count} ${count === 1 ? noun : plural}`;
+
+const Categories = () => {
+  // undefined: closed, null: creating a new category
+  const [editing, setEditing] = useState<Category | null | undefined>(undefined);
+  const [merging, setMerging] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [deleting, setDeleting] = useState<Category | null>(null);
+  const { toast } = useToast();
+  const { data: categories = [], isLoading } = useCategories();
+  const { data: resourceCounts } = useCategoryResourceCounts();
+  const mergeCategories = useMergeCategories();
+  const deleteCategory = useDeleteCategory();
+
+  const tree = flattenCategoryTree(categories);
+  const countFor = (category: Category) => resourceCounts?.get(category.id) ?? 0;
+  const childCount = (category: Category) => categories.filter((child) => child.parent_id === category.id).length;
+
+  const showError = (error: Error) =>
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+
+  const openMerge = (category: Category) => {
+    setMergeTargetId("");
+    setMerging(category);
+  };
+
+  const handleMerge = () => {
+    if (!merging || !mergeTargetId) return;
+
+    const target = categories.find((category) => category.id === mergeTargetId);
+    mergeCategories.mutate(
+      { sourceId: merging.id, targetId: mergeTargetId },
+      {
+        onSuccess: (moved) => {
+          toast({
+            title: "Success",
+            description: `Merged "${merging.name}" into "${target?.name}" and moved ${pluralize(moved, "resource")}`,
+          });
+          setMerging(null);
+        },
+        onError: showError,
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+
+    deleteCategory.mutate(deleting.id, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "Category deleted successfully",
+        });
+        setDeleting(null);
+      },
+      onError: showError,
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-4xl">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Categories</h1>
+            <p className="text-muted-foreground">Organize resources into subjects and topics</p>
+          </div>
+          <Button onClick={() => setEditing(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Category
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Categories</CardTitle>
+            <CardDescription>Filtering by a category also shows the resources in its subcategories</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : tree.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8">
+                <FolderTree className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No categories yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {tree.map((category) => (
+                  <div
+                    key={category.id}
+                    className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                    style={{ marginLeft: `${category.depth * 1.5}rem` }}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium truncate">{category.name}</h3>
+                        <Badge variant="secondary">{pluralize(countFor(category), "resource")}</Badge>
+                      </div>
+                      {category.description && (
+                        <p className="text-sm text-muted-foreground line-clamp-1">{category.description}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditing(category)} aria-label="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openMerge(category)}
+                        disabled={categories.length < 2}
+                        aria-label="Merge"
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => setDeleting(category)} aria-label="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing !== undefined && (
+        <CategoryFormDialog
+          category={editing ?? undefined}
+          categories={categories}
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+        />
+      )}
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Category</DialogTitle>
+            <DialogDescription>
+              {merging &&
+                `${pluralize(countFor(merging), "resource")} and ${pluralize(childCount(merging), "subcategory", "subcategories")} ` +
+                  `in "${merging.name}" move to the category you choose, then "${merging.name}" is deleted.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="merge-target">Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger id="merge-target">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {merging && (
+                  <CategoryOptions categories={categories} exclude={categorySubtreeIds(categories, merging.id)} />
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerging(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId || mergeCategories.isPending}>
+              {mergeCategories.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting &&
+                `${pluralize(countFor(deleting), "resource")} will become uncategorized and ` +
+                  `${pluralize(childCount(deleting), "subcategory", "subcategories")} will move up a level. ` +
+                  "Merge the category instead to keep its resources filed."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteCategory.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleteCategory.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default Categories;
@@ -0,0 +1,250 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useClassDetail } from "@/hooks/use-classes";
+import { ArrowLeft, Copy, FileText, Loader2, LogOut, RefreshCw, Trash2, UserMinus } from "lucide-react";
+
+const ClassRoster = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: classData, isLoading, isError } = useClassDetail(id);
+
+  const canManage = !!classData && (classData.teacher_id === user?.id || hasRole("admin"));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["classes"] });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const handleCopyCode = async () => {
+    if (!classData) return;
+    await navigator.clipboard.writeText(classData.join_code);
+    toast({
+      title: "Copied",
+      description: "Join code copied to clipboard",
+    });
+  };
+
+  const handleRegenerateCode = async () => {
+    if (!confirm("Generate a new join code? The current code will stop working.")) return;
+
+    const { error } = await supabase.rpc("regenerate_join_code", { _class_id: id! });
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleRemoveStudent = async (enrollmentId: string, name: string | null) => {
+    if (!confirm(`Remove ${name || "this student"} from the class?`)) return;
+
+    const { error } = await supabase.from("enrollments").delete().eq("id", enrollmentId);
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleLeave = async () => {
+    if (!confirm("Leave this class? You will lose access to its resources.")) return;
+
+    const { error } = await supabase
+      .from("enrollments")
+      .delete()
+      .eq("class_id", id!)
+      .eq("user_id", user!.id);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+
+    refresh();
+    queryClient.invalidateQueries({ queryKey: ["resources"] });
+    navigate("/classes");
+  };
+
+  const handleDeleteClass = async () => {
+    if (!confirm("Delete this class? Its resources become visible to everyone.")) return;
+
+    const { error } = await supabase.from("classes").delete().eq("id", id!);
+    if (error) {
+      showError(error);
+      return;
+    }
+
+    refresh();
+    navigate("/classes");
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (isError || !classData) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">Class not found</p>
+            <Button variant="link" asChild>
+              <Link to="/classes">Back to classes</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-4xl">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/classes">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All classes
+          </Link>
+        </Button>
+
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{classData.name}</h1>
+            <p className="text-muted-foreground">
+              {classData.description || `Taught by ${classData.teacher_name || "Unknown"}`}
+            </p>
+          </div>
+          {canManage ? (
+            <Button variant="destructive" size="sm" onClick={handleDeleteClass}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Class
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={handleLeave}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave Class
+            </Button>
+          )}
+        </div>
+
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Join Code</CardTitle>
+              <CardDescription>Share this code with students so they can enroll</CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center gap-2">
+              <span className="text-2xl font-mono font-bold tracking-widest">{classData.join_code}</span>
+              <Button variant="outline" size="sm" onClick={handleCopyCode}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRegenerateCode}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Roster</CardTitle>
+              <CardDescription>
+                {classData.roster.length} {classData.roster.length === 1 ? "student" : "students"} enrolled
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {classData.roster.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">No students have joined yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="w-[1%]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {classData.roster.map((student) => (
+                      <TableRow key={student.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            <Avatar className="h-8 w-8">
+                              <AvatarFallback>
+                                {student.full_name?.charAt(0).toUpperCase() || "?"}
+                              </AvatarFallback>
+                            </Avatar>
+                            <span className="font-medium">{student.full_name || "Unknown User"}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {new Date(student.enrolled_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveStudent(student.id, student.full_name)}
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Class Resources</CardTitle>
+            <CardDescription>Only visible to members of this class</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {classData.resources.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No resources shared with this class yet</p>
+            ) : (
+              <div className="space-y-3">
+                {classData.resources.map((resource) => (
+                  <div key={resource.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <h3 className="font-medium">{resource.title}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {new Date(resource.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Badge variant="secondary">{resource.file_type.toUpperCase()}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ClassRoster;
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { TeacherAccessCard } from "@/components/TeacherAccessCard";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useClasses } from "@/hooks/use-classes";
+import { usePermission } from "@/hooks/use-permission";
+import { Loader2, LogIn, Plus, School, Users } from "lucide-react";
+
+const Classes = () => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: classes = [], isLoading } = useClasses();
+
+  const canCreate = usePermission("class.create");
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("classes")
+        .insert({
+          name,
+          description,
+          teacher_id: user.id,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey: ["classes"] });
+      setDialogOpen(false);
+      setName("");
+      setDescription("");
+      navigate(`/classes/${data.id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const { data: classId, error } = await supabase.rpc("join_class", { _join_code: joinCode });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "You have joined the class",
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["classes"] });
+      queryClient.invalidateQueries({ queryKey: ["resources"] });
+      setJoinCode("");
+      navigate(`/classes/${classId}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Classes</h1>
+            <p className="text-muted-foreground">
+              {canCreate ? "Manage your classes and rosters" : "Classes you are enrolled in"}
+            </p>
+          </div>
+
+          {canCreate && (
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Class
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <DialogHeader>
+                    <DialogTitle>New Class</DialogTitle>
+                    <DialogDescription>Students join with the code generated for the class.</DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-2">
+                    <Label htmlFor="class-name">Name</Label>
+                    <Input
+                      id="class-name"
+                      placeholder="Year 7 Mathematics"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="class-description">Description</Label>
+                    <Textarea
+                      id="class-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                  <DialogFooter>
+                    <Button type="submit" disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Class
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+
+        {!canCreate && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Join a Class</CardTitle>
+              <CardDescription>Enter the join code your teacher gave you</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleJoin} className="flex gap-2">
+                <Input
+                  placeholder="e.g. K7QM3P"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  className="font-mono uppercase max-w-[200px]"
+                  required
+                />
+                <Button type="submit" disabled={saving}>
+                  {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                  Join
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {!canCreate && hasRole("student") && <TeacherAccessCard />}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : classes.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <School className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-lg font-medium">No classes yet</p>
+              <p className="text-muted-foreground">
+                {canCreate ? "Create a class to share resources with its students only" : "Join a class with a code"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {classes.map((classData) => (
+              <Link key={classData.id} to={`/classes/${classData.id}`}>
+                <Card className="h-full hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <CardTitle className="text-lg line-clamp-1">{classData.name}</CardTitle>
+                    <CardDescription className="line-clamp-2">
+                      {classData.description || "No description available"}
+                    </CardDescription>
+                  </CardHeader>
+                  {canCreate && (
+                    <CardContent>
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Users className="h-4 w-4" />
+                        {classData.student_count} {classData.student_count === 1 ? "student" : "students"}
+                      </span>
+                    </CardContent>
+                  )}
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Classes;
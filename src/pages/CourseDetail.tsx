@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { SortableList } from "@/components/SortableList";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { useCourse, CourseDetail as CourseDetailData, CourseItem, CourseModule } from "@/hooks/use-courses";
+import { ArrowLeft, Eye, FileText, Loader2, Plus, Trash2 } from "lucide-react";
+
+const CourseDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [newModuleTitle, setNewModuleTitle] = useState("");
+  const { user } = useAuth();
+  const canManageAny = usePermission("course.manage_any");
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: course, isLoading, isError } = useCourse(id);
+
+  const canEdit = !!course && (course.created_by === user?.id || canManageAny);
+
+  // Uploads the current teacher can attach as lessons
+  const { data: myResources = [] } = useQuery({
+    queryKey: ["resources", "mine", user?.id],
+    enabled: canEdit,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select("id, title")
+        .eq("uploaded_by", user!.id)
+        .order("title");
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["courses"] });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const updateCourse = async (changes: { title?: string; description?: string; is_published?: boolean }) => {
+    const { error } = await supabase.from("courses").update(changes).eq("id", id!);
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleDeleteCourse = async () => {
+    if (!confirm("Are you sure you want to delete this course? Its resources are kept.")) return;
+
+    const { error } = await supabase.from("courses").delete().eq("id", id!);
+    if (error) {
+      showError(error);
+      return;
+    }
+
+    refresh();
+    navigate("/courses");
+  };
+
+  const handleAddModule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!course) return;
+
+    const { error } = await supabase.from("course_modules").insert({
+      course_id: course.id,
+      title: newModuleTitle,
+      position: course.modules.length,
+    });
+
+    if (error) {
+      showError(error);
+      return;
+    }
+
+    setNewModuleTitle("");
+    refresh();
+  };
+
+  const handleRenameModule = async (module: CourseModule, title: string) => {
+    if (!title.trim() || title === module.title) return;
+
+    const { error } = await supabase.from("course_modules").update({ title }).eq("id", module.id);
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleDeleteModule = async (moduleId: string) => {
+    if (!confirm("Delete this module and all of its lessons?")) return;
+
+    const { error } = await supabase.from("course_modules").delete().eq("id", moduleId);
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleAddItem = async (module: CourseModule, resourceId: string) => {
+    const { error } = await supabase.from("module_items").insert({
+      module_id: module.id,
+      resource_id: resourceId,
+      position: module.items.length,
+    });
+
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    const { error } = await supabase.from("module_items").delete().eq("id", itemId);
+    if (error) showError(error);
+    refresh();
+  };
+
+  // Reorders are applied to the cache first so the drop feels instant
+  const setModules = (update: (modules: CourseModule[]) => CourseModule[]) => {
+    queryClient.setQueryData<CourseDetailData>(["courses", id], (data) =>
+      data ? { ...data, modules: update(data.modules) } : data
+    );
+  };
+
+  const handleReorderModules = async (modules: CourseModule[]) => {
+    setModules(() => modules);
+
+    const { error } = await supabase.rpc("reorder_course_modules", {
+      _course_id: id!,
+      _module_ids: modules.map((module) => module.id),
+    });
+
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleReorderItems = async (moduleId: string, items: CourseItem[]) => {
+    setModules((modules) => modules.map((module) => (module.id === moduleId ? { ...module, items } : module)));
+
+    const { error } = await supabase.rpc("reorder_module_items", {
+      _module_id: moduleId,
+      _item_ids: items.map((item) => item.id),
+    });
+
+    if (error) showError(error);
+    refresh();
+  };
+
+  const handleOpen = (resource: NonNullable<CourseItem["resource"]>) => navigate(`/resources/${resource.id}`);
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (isError || !course) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">Course not found</p>
+            <Button variant="link" asChild>
+              <Link to="/courses">Back to courses</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-4xl">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/courses">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All courses
+          </Link>
+        </Button>
+
+        {canEdit ? (
+          <Card>
+            <CardContent className="space-y-4 pt-6">
+              <div className="space-y-2">
+                <Label htmlFor="course-title">Title</Label>
+                <Input
+                  id="course-title"
+                  defaultValue={course.title}
+                  onBlur={(e) => e.target.value.trim() && e.target.value !== course.title && updateCourse({ title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="course-description">Description</Label>
+                <Textarea
+                  id="course-description"
+                  defaultValue={course.description ?? ""}
+                  onBlur={(e) => e.target.value !== (course.description ?? "") && updateCourse({ description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="course-published"
+                    checked={course.is_published}
+                    onCheckedChange={(checked) => updateCourse({ is_published: checked })}
+                  />
+                  <Label htmlFor="course-published">Published</Label>
+                </div>
+                <Button variant="destructive" size="sm" onClick={handleDeleteCourse}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Course
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{course.title}</h1>
+            <p className="text-muted-foreground">{course.description}</p>
+          </div>
+        )}
+
+        {course.modules.length === 0 && !canEdit && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              This course has no modules yet
+            </CardContent>
+          </Card>
+        )}
+
+        <SortableList
+          className="space-y-4"
+          items={course.modules}
+          getKey={(module) => module.id}
+          onReorder={handleReorderModules}
+          disabled={!canEdit}
+          renderItem={(module, moduleHandle) => (
+            <Card>
+              <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+                {moduleHandle}
+                {canEdit ? (
+                  <Input
+                    defaultValue={module.title}
+                    onBlur={(e) => handleRenameModule(module, e.target.value)}
+                    className="font-semibold"
+                  />
+                ) : (
+                  <h2 className="text-lg font-semibold">{module.title}</h2>
+                )}
+                {canEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteModule(module.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {module.items.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No lessons in this module yet</p>
+                )}
+
+                <SortableList
+                  className="space-y-2"
+                  items={module.items}
+                  getKey={(item) => item.id}
+                  onReorder={(items) => handleReorderItems(module.id, items)}
+                  disabled={!canEdit}
+                  renderItem={(item, itemHandle) => (
+                    <div className="flex items-center gap-3 p-3 border rounded-lg bg-background">
+                      {itemHandle}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {item.title || item.resource?.title || "Deleted resource"}
+                        </p>
+                      </div>
+                      {item.resource && (
+                        <>
+                          <Badge variant="secondary">{item.resource.file_type.toUpperCase()}</Badge>
+                          <Button variant="outline" size="sm" onClick={() => handleOpen(item.resource!)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {canEdit && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveItem(item.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                />
+
+                {canEdit && (
+                  <Select value="" onValueChange={(resourceId) => handleAddItem(module, resourceId)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Attach one of your uploads..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {myResources.length === 0 ? (
+                        <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                          Upload resources first to attach them
+                        </div>
+                      ) : (
+                        myResources.map((resource) => (
+                          <SelectItem key={resource.id} value={resource.id}>
+                            {resource.title}
+                          </SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        />
+
+        {canEdit && (
+          <form onSubmit={handleAddModule} className="flex gap-2">
+            <Input
+              placeholder="New module title"
+              value={newModuleTitle}
+              onChange={(e) => setNewModuleTitle(e.target.value)}
+              required
+            />
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Module
+            </Button>
+          </form>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CourseDetail;
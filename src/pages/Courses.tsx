@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCourses } from "@/hooks/use-courses";
+import { usePermission } from "@/hooks/use-permission";
+import { GraduationCap, Layers, Loader2, Plus } from "lucide-react";
+
+const Courses = () => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [creating, setCreating] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: courses = [], isLoading } = useCourses();
+
+  const canCreate = usePermission("course.create");
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase
+        .from("courses")
+        .insert({
+          title,
+          description,
+          created_by: user.id,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey: ["courses"] });
+      setDialogOpen(false);
+      setTitle("");
+      setDescription("");
+      navigate(`/courses/${data.id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Courses</h1>
+            <p className="text-muted-foreground">Structured learning paths built from resources</p>
+          </div>
+
+          {canCreate && (
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Course
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <DialogHeader>
+                    <DialogTitle>New Course</DialogTitle>
+                    <DialogDescription>You can add modules and lessons next.</DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-2">
+                    <Label htmlFor="course-title">Title</Label>
+                    <Input
+                      id="course-title"
+                      placeholder="Algebra I"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="course-description">Description</Label>
+                    <Textarea
+                      id="course-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                  <DialogFooter>
+                    <Button type="submit" disabled={creating}>
+                      {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Course
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : courses.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <GraduationCap className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-lg font-medium">No courses yet</p>
+              <p className="text-muted-foreground">
+                {canCreate ? "Create a course to group resources into modules" : "Check back later"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {courses.map((course) => (
+              <Link key={course.id} to={`/courses/${course.id}`}>
+                <Card className="h-full hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-lg line-clamp-1">{course.title}</CardTitle>
+                      {!course.is_published && <Badge variant="secondary">Draft</Badge>}
+                    </div>
+                    <CardDescription className="line-clamp-2">
+                      {course.description || "No description available"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Layers className="h-4 w-4" />
+                      {course.module_count} {course.module_count === 1 ? "module" : "modules"}
+                    </span>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Courses;
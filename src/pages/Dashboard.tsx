@@ -1,139 +1,94 @@
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/integrations/supabase/auth";
+import { useNavigate } from "react-router-dom";
+import { downloadResourceFile } from "@/integrations/supabase/storage";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { HighlightedText } from "@/components/HighlightedText";
+import { CategoryOptions } from "@/components/CategoryOptions";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Search, Download, Eye, FileText, Video, Image as ImageIcon } from "lucide-react";
+import { Search, Download, Eye, FileText, Video, Image as ImageIcon, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useInView } from "@/hooks/use-in-view";
+import { useCategories } from "@/hooks/use-categories";
+import { useResourceFeed, useRecordResourceEvent, ResourceListItem, ResourceSort } from "@/hooks/use-resources";
 
-interface Resource {
-  id: string;
-  title: string;
-  description: string;
-  file_url: string;
-  file_type: string;
-  file_size: number;
-  view_count: number;
-  download_count: number;
-  created_at: string;
-  categories: { name: string } | null;
-  profiles: { full_name: string } | null;
-}
-
-interface Category {
-  id: string;
-  name: string;
-}
+const PAGE_SIZE = 12;
 
 const Dashboard = () => {
-  const [resources, setResources] = useState<Resource[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [loading, setLoading] = useState(true);
-  const { user } = useAuth();
+  const [selectedFileType, setSelectedFileType] = useState<string>("all");
+  const [sort, setSort] = useState<ResourceSort>("newest");
+  const debouncedQuery = useDebounce(searchQuery, 300);
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: categories = [] } = useCategories();
 
-  useEffect(() => {
-    fetchCategories();
-    fetchResources();
-  }, []);
+  const isSearching = debouncedQuery.trim().length > 0;
+  const [loadMoreRef, loadMoreInView] = useInView<HTMLDivElement>("400px");
 
-  const fetchCategories = async () => {
-    const { data, error } = await supabase
-      .from("categories")
-      .select("*")
-      .order("name");
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useResourceFeed({
+    query: debouncedQuery,
+    categoryId: selectedCategory === "all" ? null : selectedCategory,
+    fileType: selectedFileType === "all" ? null : selectedFileType,
+    sort: isSearching || sort !== "relevance" ? sort : "newest",
+    pageSize: PAGE_SIZE,
+  });
+  const resources = data?.pages.flatMap((page) => page.items) ?? [];
+  const totalCount = data?.pages[0]?.totalCount ?? null;
+  const recordEvent = useRecordResourceEvent();
 
-    if (error) {
-      console.error("Error fetching categories:", error);
-    } else {
-      setCategories(data || []);
-    }
-  };
+  // Relevance is the natural order for a search, recency for browsing
+  useEffect(() => {
+    setSort(isSearching ? "relevance" : "newest");
+  }, [isSearching]);
 
-  const fetchResources = async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from("resources")
-      .select("*")
-      .order("created_at", { ascending: false });
+  useEffect(() => {
+    if (loadMoreInView && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [loadMoreInView, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-    if (error) {
-      console.error("Error fetching resources:", error);
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Error",
         description: "Failed to load resources",
         variant: "destructive",
       });
-      setLoading(false);
-      return;
     }
+  }, [isError, toast]);
 
-    // Fetch related data separately
-    if (data) {
-      const enrichedData = await Promise.all(
-        data.map(async (resource) => {
-          const [categoryData, profileData] = await Promise.all([
-            resource.category_id
-              ? supabase.from("categories").select("name").eq("id", resource.category_id).single()
-              : Promise.resolve({ data: null }),
-            supabase.from("profiles").select("full_name").eq("user_id", resource.uploaded_by).single(),
-          ]);
+  // The viewer page records the view itself
+  const handleView = (resource: ResourceListItem) => navigate(`/resources/${resource.id}`);
 
-          return {
-            ...resource,
-            categories: categoryData.data,
-            profiles: profileData.data,
-          };
-        })
-      );
+  const handleDownload = async (resource: ResourceListItem) => {
+    recordEvent.mutate(
+      { resourceId: resource.id, event: "download" },
+      { onError: (error) => console.error("Error recording download:", error) }
+    );
 
-      setResources(enrichedData as any);
+    // Trigger download through a short-lived signed URL
+    try {
+      await downloadResourceFile(resource.file_path, resource.title);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
-    
-    setLoading(false);
-  };
-
-  const handleView = async (resource: Resource) => {
-    // Track view
-    await supabase.from("resource_views").insert({
-      resource_id: resource.id,
-      user_id: user?.id,
-    });
-
-    // Increment view count
-    await supabase
-      .from("resources")
-      .update({ view_count: resource.view_count + 1 })
-      .eq("id", resource.id);
-
-    // Open resource
-    window.open(resource.file_url, "_blank");
-    
-    // Refresh data
-    fetchResources();
-  };
-
-  const handleDownload = async (resource: Resource) => {
-    // Increment download count
-    await supabase
-      .from("resources")
-      .update({ download_count: resource.download_count + 1 })
-      .eq("id", resource.id);
-
-    // Trigger download
-    const link = document.createElement("a");
-    link.href = resource.file_url;
-    link.download = resource.title;
-    link.click();
-    
-    // Refresh data
-    fetchResources();
   };
 
   const getFileIcon = (type: string) => {
@@ -158,19 +113,16 @@ const Dashboard = () => {
     return <Badge variant={variants[type] || "default"}>{type.toUpperCase()}</Badge>;
   };
 
-  const filteredResources = resources.filter((resource) => {
-    const matchesSearch = resource.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         resource.description?.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesCategory = selectedCategory === "all" || resource.categories?.name === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
-
   return (
     <DashboardLayout>
       <div className="space-y-6">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Learning Resources</h1>
-          <p className="text-muted-foreground">Browse and access educational materials</p>
+          <p className="text-muted-foreground">
+            {isSearching && totalCount !== null
+              ? `${totalCount} result${totalCount === 1 ? "" : "s"} for "${debouncedQuery.trim()}"`
+              : "Browse and access educational materials"}
+          </p>
         </div>
 
         {/* Filters */}
@@ -190,17 +142,36 @@ const Dashboard = () => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
-              {categories.map((category) => (
-                <SelectItem key={category.id} value={category.name}>
-                  {category.name}
-                </SelectItem>
-              ))}
+              <CategoryOptions categories={categories} />
+            </SelectContent>
+          </Select>
+          <Select value={selectedFileType} onValueChange={setSelectedFileType}>
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <SelectValue placeholder="File type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              <SelectItem value="video">Video</SelectItem>
+              <SelectItem value="image">Image</SelectItem>
+              <SelectItem value="pdf">PDF</SelectItem>
+              <SelectItem value="other">Other</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as ResourceSort)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              {isSearching && <SelectItem value="relevance">Best match</SelectItem>}
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="views">Most viewed</SelectItem>
+              <SelectItem value="downloads">Most downloaded</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
         {/* Resources Grid */}
-        {loading ? (
+        {isLoading ? (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {[1, 2, 3, 4, 5, 6].map((i) => (
               <Card key={i} className="animate-pulse">
@@ -212,7 +183,7 @@ const Dashboard = () => {
               </Card>
             ))}
           </div>
-        ) : filteredResources.length === 0 ? (
+        ) : resources.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mb-4" />
@@ -222,24 +193,36 @@ const Dashboard = () => {
           </Card>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {filteredResources.map((resource) => (
+            {resources.map((resource) => (
               <Card key={resource.id} className="hover:shadow-md transition-shadow">
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex items-center gap-2">
                       {getFileIcon(resource.file_type)}
-                      <CardTitle className="text-lg line-clamp-1">{resource.title}</CardTitle>
+                      <CardTitle className="text-lg line-clamp-1">
+                        <HighlightedText text={resource.title_highlight || resource.title} />
+                      </CardTitle>
                     </div>
                     {getFileTypeBadge(resource.file_type)}
                   </div>
                   <CardDescription className="line-clamp-2">
-                    {resource.description || "No description available"}
+                    {resource.description_snippet ? (
+                      <HighlightedText text={resource.description_snippet} />
+                    ) : (
+                      "No description available"
+                    )}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="flex items-center justify-between text-sm text-muted-foreground">
-                    <span>{resource.categories?.name || "Uncategorized"}</span>
-                    <span>{new Date(resource.created_at).toLocaleDateString()}</span>
+                    <span>{resource.category_name || "Uncategorized"}</span>
+                    {resource.file_updated_at ? (
+                      <Badge variant="outline">
+                        Updated {new Date(resource.file_updated_at).toLocaleDateString()}
+                      </Badge>
+                    ) : (
+                      <span>{new Date(resource.created_at).toLocaleDateString()}</span>
+                    )}
                   </div>
                   
                   <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -253,7 +236,7 @@ const Dashboard = () => {
                         {resource.download_count}
                       </span>
                     </div>
-                    <span className="text-xs">by {resource.profiles?.full_name || "Unknown"}</span>
+                    <span className="text-xs">by {resource.uploader_name || "Unknown"}</span>
                   </div>
 
                   <div className="flex gap-2">
@@ -281,6 +264,13 @@ const Dashboard = () => {
             ))}
           </div>
         )}
+
+        {/* Infinite scroll */}
+        {hasNextPage && (
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,132 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import { downloadResourceFile } from "@/integrations/supabase/storage";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileText, Loader2 } from "lucide-react";
+import { useRecordResourceEvent } from "@/hooks/use-resources";
+import { useToast } from "@/hooks/use-toast";
+
+interface DownloadRecord {
+  id: string;
+  downloaded_at: string;
+  resources: {
+    id: string;
+    title: string;
+    file_type: string;
+    file_path: string;
+    categories: { name: string } | null;
+  } | null;
+}
+
+const Downloads = () => {
+  const { user } = useAuth();
+  const recordEvent = useRecordResourceEvent();
+  const { toast } = useToast();
+
+  const { data: downloads = [], isLoading } = useQuery({
+    queryKey: ["downloads", user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<DownloadRecord[]> => {
+      const { data, error } = await supabase
+        .from("resource_downloads")
+        .select(`
+          id,
+          downloaded_at,
+          resources (
+            id,
+            title,
+            file_type,
+            file_path,
+            categories (name)
+          )
+        `)
+        .eq("user_id", user!.id)
+        .order("downloaded_at", { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const handleDownload = async (resource: NonNullable<DownloadRecord["resources"]>) => {
+    recordEvent.mutate(
+      { resourceId: resource.id, event: "download" },
+      { onError: (error) => console.error("Error recording download:", error) }
+    );
+
+    try {
+      await downloadResourceFile(resource.file_path, resource.title);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-4xl">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">My Downloads</h1>
+          <p className="text-muted-foreground">Resources you have downloaded</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Download History</CardTitle>
+            <CardDescription>Your 100 most recent downloads</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : downloads.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8">
+                <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No downloads yet</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {downloads.map((download) => (
+                  <div
+                    key={download.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                  >
+                    <div>
+                      <h3 className="font-medium">{download.resources?.title || "Deleted resource"}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {download.resources?.categories?.name || "Uncategorized"} • {new Date(download.downloaded_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {download.resources && (
+                      <div className="flex items-center gap-3">
+                        <Badge variant="secondary">{download.resources.file_type.toUpperCase()}</Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownload(download.resources!)}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Downloads;
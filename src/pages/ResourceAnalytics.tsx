@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAuth } from "@/integrations/supabase/auth";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { AnalyticsRangePicker } from "@/components/AnalyticsRangePicker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
+import {
+  AnalyticsRange,
+  RangePreset,
+  TrendBucket,
+  formatBucket,
+  getPresetRange,
+  useResourceAnalyticsDetails,
+  useResourceAnalyticsSummary,
+  useResourceTraffic,
+  useResourceViewers,
+  useViewsByDay,
+} from "@/hooks/use-analytics";
+import { usePermission } from "@/hooks/use-permission";
+import { ArrowLeft, Download, Eye, FileText, Loader2, Repeat, Users } from "lucide-react";
+
+// Monday first; values are Postgres day-of-week numbers (0 = Sunday)
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+const ResourceAnalytics = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const canViewAll = usePermission("analytics.view_all");
+  const [preset, setPreset] = useState<RangePreset>("30d");
+  const [range, setRange] = useState<AnalyticsRange>(() => getPresetRange("30d"));
+  const [bucket, setBucket] = useState<TrendBucket>("day");
+
+  const { data: resource, isLoading } = useResourceAnalyticsDetails(id);
+  const { data: summary, isError } = useResourceAnalyticsSummary(id, range);
+  const { data: trends = [] } = useViewsByDay({ type: "all" }, range, bucket, id);
+  const { data: traffic = [] } = useResourceTraffic(id, range);
+
+  const canSeeViewers = !!resource && (resource.uploaded_by === user?.id || canViewAll);
+  const { data: viewers = [] } = useResourceViewers(id, range, canSeeViewers);
+
+  const trendData = trends.map((point) => ({
+    date: formatBucket(point.bucket_start, bucket),
+    views: point.views,
+    downloads: point.downloads,
+  }));
+  const weekdayData = WEEKDAYS.map(({ day, label }) => ({
+    label,
+    views: traffic.filter((cell) => cell.day_of_week === day).reduce((sum, cell) => sum + cell.views, 0),
+  }));
+  const hourData = Array.from({ length: 24 }, (_, hour) => ({
+    label: String(hour).padStart(2, "0"),
+    views: traffic.filter((cell) => cell.hour === hour).reduce((sum, cell) => sum + cell.views, 0),
+  }));
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!resource || isError) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">No analytics available for this resource</p>
+            <Button variant="link" asChild>
+              <Link to="/analytics">Back to analytics</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/analytics">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Analytics
+          </Link>
+        </Button>
+
+        <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{resource.title}</h1>
+            <div className="flex flex-wrap items-center gap-2 mt-1 text-muted-foreground">
+              <Badge variant="outline">{resource.file_type}</Badge>
+              {resource.categories && <Badge variant="secondary">{resource.categories.name}</Badge>}
+              <span className="text-sm">
+                Uploaded by {resource.uploader?.full_name || "Unknown"} on{" "}
+                {new Date(resource.created_at).toLocaleDateString()}
+              </span>
+            </div>
+          </div>
+          <AnalyticsRangePicker
+            preset={preset}
+            range={range}
+            bucket={bucket}
+            onRangeChange={(nextPreset, nextRange) => {
+              setPreset(nextPreset);
+              setRange(nextRange);
+            }}
+            onBucketChange={setBucket}
+          />
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Views</CardTitle>
+              <Eye className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary?.views ?? 0}</div>
+              <p className="text-xs text-muted-foreground">In the selected range</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Downloads</CardTitle>
+              <Download className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary?.downloads ?? 0}</div>
+              <p className="text-xs text-muted-foreground">In the selected range</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Unique Viewers</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary?.unique_viewers ?? 0}</div>
+              <p className="text-xs text-muted-foreground">Opened it at least once</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Repeat Viewers</CardTitle>
+              <Repeat className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary?.repeat_viewers ?? 0}</div>
+              <p className="text-xs text-muted-foreground">Came back to it</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Timeline */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+            <CardDescription>Views and downloads over the selected range</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Line type="monotone" dataKey="views" name="Views" stroke="hsl(var(--primary))" strokeWidth={2} />
+                <Line type="monotone" dataKey="downloads" name="Downloads" stroke="hsl(var(--accent))" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>By Day of Week</CardTitle>
+              <CardDescription>When students open this resource</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={weekdayData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="views" fill="hsl(var(--primary))" name="Views" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Hour</CardTitle>
+              <CardDescription>Local time of each view</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={hourData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" interval={2} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="views" fill="hsl(var(--accent))" name="Views" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        {canSeeViewers && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Viewers</CardTitle>
+              <CardDescription>Everyone who opened this resource in the selected range</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {viewers.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">Nobody has opened it yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="text-right">Views</TableHead>
+                      <TableHead>First opened</TableHead>
+                      <TableHead>Last opened</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewers.map((viewer) => (
+                      <TableRow key={viewer.user_id}>
+                        <TableCell className="font-medium">{viewer.full_name || "Unknown User"}</TableCell>
+                        <TableCell className="text-right">{viewer.view_count}</TableCell>
+                        <TableCell>{new Date(viewer.first_viewed_at).toLocaleString()}</TableCell>
+                        <TableCell>{new Date(viewer.last_viewed_at).toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ResourceAnalytics;
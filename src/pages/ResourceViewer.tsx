@@ -0,0 +1,215 @@
+import { useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { downloadResourceFile, openResourceFile } from "@/integrations/supabase/storage";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { PdfViewer } from "@/components/PdfViewer";
+import { VideoPlayer } from "@/components/VideoPlayer";
+import { ImageLightbox } from "@/components/ImageLightbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ResourceDetails,
+  useRecordResourceEvent,
+  useResource,
+  useResourceProgress,
+  useResourceViewerUrl,
+  useSaveResourceProgress,
+} from "@/hooks/use-resources";
+import { ArrowLeft, Download, ExternalLink, Eye, FileText, Loader2 } from "lucide-react";
+
+const ResourceViewer = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: resource, isLoading, isError } = useResource(id);
+  const { data: fileUrl, isError: isUrlError } = useResourceViewerUrl(resource?.file_path);
+  const { mutate: recordEvent } = useRecordResourceEvent();
+  const isVideo = resource?.file_type === "video";
+  const { data: progress, isPending: isProgressPending } = useResourceProgress(id, isVideo);
+  const { mutate: saveProgress } = useSaveResourceProgress();
+
+  // Opening the viewer counts as a view, once per resource shown
+  useEffect(() => {
+    if (!id) return;
+
+    recordEvent(
+      { resourceId: id, event: "view" },
+      { onError: (error) => console.error("Error recording view:", error) }
+    );
+  }, [id, recordEvent]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const handleDownload = async (resource: ResourceDetails) => {
+    recordEvent(
+      { resourceId: resource.id, event: "download" },
+      { onError: (error) => console.error("Error recording download:", error) }
+    );
+
+    try {
+      await downloadResourceFile(resource.file_path, resource.title);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleOpenInTab = async (resource: ResourceDetails) => {
+    try {
+      await openResourceFile(resource.file_path);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (isError || !resource) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">Resource not found</p>
+            <Button variant="link" asChild>
+              <Link to="/dashboard">Back to resources</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  const renderViewer = () => {
+    if (isUrlError) {
+      return <p className="py-12 text-center text-muted-foreground">The file could not be loaded</p>;
+    }
+
+    if (!fileUrl || (isVideo && isProgressPending)) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    switch (resource.file_type) {
+      case "pdf":
+        return <PdfViewer url={fileUrl} />;
+      case "video":
+        return (
+          <VideoPlayer
+            url={fileUrl}
+            startAt={progress?.position_seconds}
+            onProgress={(position, duration, watched) =>
+              saveProgress(
+                { resourceId: resource.id, position, duration, watched },
+                { onError: (error) => console.error("Error saving progress:", error) }
+              )
+            }
+          />
+        );
+      case "image":
+        return <ImageLightbox url={fileUrl} alt={resource.title} />;
+      default:
+        return (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">No preview available for this file type</p>
+            <Button variant="link" onClick={() => handleOpenInTab(resource)}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open in a new tab
+            </Button>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardContent className="pt-6">{renderViewer()}</CardContent>
+          </Card>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <CardTitle className="text-xl">{resource.title}</CardTitle>
+                <Badge variant="outline">{resource.file_type.toUpperCase()}</Badge>
+              </div>
+              {resource.file_updated_at && (
+                <Badge variant="secondary" className="w-fit">
+                  Updated on {new Date(resource.file_updated_at).toLocaleDateString()}
+                </Badge>
+              )}
+              <CardDescription className="whitespace-pre-line">
+                {resource.description || "No description available"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Separator />
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-muted-foreground">Category</dt>
+                <dd>{resource.categories?.name || "Uncategorized"}</dd>
+                <dt className="text-muted-foreground">Uploaded by</dt>
+                <dd>{resource.uploader?.full_name || "Unknown"}</dd>
+                <dt className="text-muted-foreground">Uploaded on</dt>
+                <dd>{new Date(resource.created_at).toLocaleDateString()}</dd>
+                {progress && (
+                  <>
+                    <dt className="text-muted-foreground">Your progress</dt>
+                    <dd>{progress.completed ? "Completed" : `${Math.round(progress.percent_watched)}% watched`}</dd>
+                  </>
+                )}
+                {resource.file_size !== null && (
+                  <>
+                    <dt className="text-muted-foreground">Size</dt>
+                    <dd>{(resource.file_size / 1024 / 1024).toFixed(2)} MB</dd>
+                  </>
+                )}
+              </dl>
+              <div className="flex gap-4 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Eye className="h-4 w-4" />
+                  {resource.view_count}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Download className="h-4 w-4" />
+                  {resource.download_count}
+                </span>
+              </div>
+              <Button className="w-full" onClick={() => handleDownload(resource)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ResourceViewer;
@@ -1,17 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/integrations/supabase/auth";
+import { removeResourceFile } from "@/integrations/supabase/storage";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { FileDropZone } from "@/components/FileDropZone";
+import { UploadQueueRow } from "@/components/UploadQueueRow";
+import { ResourceVersionsDialog } from "@/components/ResourceVersionsDialog";
+import { ResourceEditDialog } from "@/components/ResourceEditDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Upload as UploadIcon, Loader2, Trash2 } from "lucide-react";
+import { UploadQueueSummary, useUploadQueue } from "@/hooks/use-upload-queue";
+import { useReplaceResourceFile } from "@/hooks/use-resources";
+import { useCategories } from "@/hooks/use-categories";
+import { Upload as UploadIcon, Loader2, Trash2, FileUp, History, Pencil } from "lucide-react";
 
-interface Category {
+interface ClassOption {
   id: string;
   name: string;
 }
@@ -19,34 +25,52 @@ interface Category {
 interface Resource {
   id: string;
   title: string;
-  description: string;
+  description: string | null;
+  category_id: string | null;
+  class_id: string | null;
+  file_path: string;
   file_type: string;
+  file_size: number | null;
+  current_version: number;
   categories: { name: string } | null;
+  classes: { name: string } | null;
   created_at: string;
+  file_updated_at: string | null;
 }
 
 const Upload = () => {
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [categoryId, setCategoryId] = useState("");
-  const [file, setFile] = useState<File | null>(null);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [classId, setClassId] = useState("everyone");
+  const [myClasses, setMyClasses] = useState<ClassOption[]>([]);
   const [myResources, setMyResources] = useState<Resource[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const [summary, setSummary] = useState<UploadQueueSummary | null>(null);
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [historyResource, setHistoryResource] = useState<Resource | null>(null);
+  const [editingResource, setEditingResource] = useState<Resource | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<string | null>(null);
+  const replaceFile = useReplaceResourceFile();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { data: categories = [] } = useCategories();
+  const queue = useUploadQueue({
+    userId: user?.id,
+    classId: classId === "everyone" ? null : classId,
+  });
 
   useEffect(() => {
-    fetchCategories();
+    fetchMyClasses();
     fetchMyResources();
   }, []);
 
-  const fetchCategories = async () => {
+  const fetchMyClasses = async () => {
+    if (!user) return;
+
     const { data } = await supabase
-      .from("categories")
-      .select("*")
+      .from("classes")
+      .select("id, name")
+      .eq("teacher_id", user.id)
       .order("name");
-    setCategories(data || []);
+    setMyClasses(data || []);
   };
 
   const fetchMyResources = async () => {
@@ -58,9 +82,16 @@ const Upload = () => {
         id,
         title,
         description,
+        category_id,
+        class_id,
+        file_path,
         file_type,
+        file_size,
+        current_version,
         created_at,
-        categories (name)
+        file_updated_at,
+        categories (name),
+        classes (name)
       `)
       .eq("uploaded_by", user.id)
       .order("created_at", { ascending: false });
@@ -68,69 +99,24 @@ const Upload = () => {
     setMyResources(data || []);
   };
 
-  const getFileType = (file: File): string => {
-    if (file.type.startsWith("video/")) return "video";
-    if (file.type.startsWith("image/")) return "image";
-    if (file.type === "application/pdf") return "pdf";
-    return "other";
-  };
-
-  const handleUpload = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!file || !user) return;
-
-    setUploading(true);
+  const handleUpload = async () => {
+    setSummary(null);
     try {
-      // Upload file to storage
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${Math.random()}.${fileExt}`;
-      const filePath = `${user.id}/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from("learning-resources")
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from("learning-resources")
-        .getPublicUrl(filePath);
-
-      // Create resource record
-      const { error: insertError } = await supabase
-        .from("resources")
-        .insert({
-          title,
-          description,
-          category_id: categoryId || null,
-          file_url: publicUrl,
-          file_type: getFileType(file),
-          file_size: file.size,
-          uploaded_by: user.id,
-        });
-
-      if (insertError) throw insertError;
+      const result = await queue.start();
+      setSummary(result);
+      fetchMyResources();
 
       toast({
-        title: "Success",
-        description: "Resource uploaded successfully",
+        title: result.failed ? "Upload finished with errors" : "Success",
+        description: `${result.succeeded} uploaded, ${result.failed} failed`,
+        variant: result.failed ? "destructive" : "default",
       });
-
-      // Reset form
-      setTitle("");
-      setDescription("");
-      setCategoryId("");
-      setFile(null);
-      fetchMyResources();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
-    } finally {
-      setUploading(false);
     }
   };
 
@@ -138,13 +124,21 @@ const Upload = () => {
     if (!confirm("Are you sure you want to delete this resource?")) return;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("resources")
         .delete()
-        .eq("id", resourceId);
+        .eq("id", resourceId)
+        .select("file_path")
+        .single();
 
       if (error) throw error;
 
+      // The row is gone either way; a file that fails to delete stays queued
+      // for the reconcile-storage job, as do the files of earlier versions
+      await removeResourceFile(data.file_path).catch((removeError) =>
+        console.error("Error removing resource file:", removeError)
+      );
+
       toast({
         title: "Success",
         description: "Resource deleted successfully",
@@ -160,6 +154,42 @@ const Upload = () => {
     }
   };
 
+  const chooseReplacement = (resourceId: string) => {
+    replaceTargetRef.current = resourceId;
+    replaceInputRef.current?.click();
+  };
+
+  const handleReplace = (file: File | undefined) => {
+    const resourceId = replaceTargetRef.current;
+    replaceTargetRef.current = null;
+    if (!file || !resourceId) return;
+
+    setReplacingId(resourceId);
+    replaceFile.mutate(
+      { resourceId, file },
+      {
+        onSuccess: (version) => {
+          toast({
+            title: "Success",
+            description: `File replaced with version ${version}`,
+          });
+          fetchMyResources();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+        onSettled: () => setReplacingId(null),
+      }
+    );
+  };
+
+  const pendingCount = queue.items.filter((item) => item.status === "queued" || item.status === "failed").length;
+  const finishedCount = queue.items.filter((item) => item.status === "done").length;
+
   return (
     <DashboardLayout>
       <div className="space-y-6 max-w-4xl">
@@ -170,65 +200,62 @@ const Upload = () => {
 
         <Card>
           <CardHeader>
-            <CardTitle>Upload New Resource</CardTitle>
+            <CardTitle>Upload New Resources</CardTitle>
             <CardDescription>Add videos, images, or PDF documents</CardDescription>
           </CardHeader>
-          <CardContent>
-            <form onSubmit={handleUpload} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="title">Title</Label>
-                <Input
-                  id="title"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  required
-                />
-              </div>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="visibility">Visible to</Label>
+              <Select value={classId} onValueChange={setClassId} disabled={queue.running}>
+                <SelectTrigger id="visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="everyone">Everyone</SelectItem>
+                  {myClasses.map((classOption) => (
+                    <SelectItem key={classOption.id} value={classOption.id}>
+                      {classOption.name} only
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  rows={3}
-                />
-              </div>
+            <FileDropZone
+              accept="video/*,image/*,.pdf"
+              onFiles={(files) => {
+                setSummary(null);
+                queue.addFiles(files);
+              }}
+            />
 
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Select value={categoryId} onValueChange={setCategoryId}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.id}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+            {queue.items.length > 0 && (
+              <div className="space-y-3">
+                {queue.items.map((item) => (
+                  <UploadQueueRow
+                    key={item.id}
+                    item={item}
+                    categories={categories}
+                    onChange={(changes) => queue.updateItem(item.id, changes)}
+                    onRemove={() => queue.removeItem(item.id)}
+                    onPause={() => queue.pause(item.id)}
+                    onResume={() => queue.resume(item.id)}
+                    onCancel={() => queue.cancel(item.id)}
+                  />
+                ))}
               </div>
+            )}
 
-              <div className="space-y-2">
-                <Label htmlFor="file">File</Label>
-                <Input
-                  id="file"
-                  type="file"
-                  accept="video/*,image/*,.pdf"
-                  onChange={(e) => setFile(e.target.files?.[0] || null)}
-                  required
-                />
-                {file && (
-                  <p className="text-sm text-muted-foreground">
-                    Selected: {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
-                  </p>
-                )}
-              </div>
+            {summary && (
+              <p className="text-sm text-muted-foreground">
+                {summary.succeeded} of {summary.succeeded + summary.failed} files uploaded
+                {summary.failed > 0 && ". Fix the failed files and upload again to retry them."}
+              </p>
+            )}
 
-              <Button type="submit" disabled={uploading}>
-                {uploading ? (
+            <div className="flex gap-2">
+              <Button onClick={handleUpload} disabled={queue.running || pendingCount === 0}>
+                {queue.running ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Uploading...
@@ -236,11 +263,16 @@ const Upload = () => {
                 ) : (
                   <>
                     <UploadIcon className="mr-2 h-4 w-4" />
-                    Upload Resource
+                    Upload {pendingCount} {pendingCount === 1 ? "File" : "Files"}
                   </>
                 )}
               </Button>
-            </form>
+              {finishedCount > 0 && (
+                <Button variant="outline" onClick={queue.clearFinished}>
+                  Clear Uploaded
+                </Button>
+              )}
+            </div>
           </CardContent>
         </Card>
 
@@ -262,22 +294,92 @@ const Upload = () => {
                     <div>
                       <h3 className="font-medium">{resource.title}</h3>
                       <p className="text-sm text-muted-foreground">
-                        {resource.categories?.name || "Uncategorized"} • {resource.file_type.toUpperCase()} • {new Date(resource.created_at).toLocaleDateString()}
+                        {resource.categories?.name || "Uncategorized"} • {resource.file_type.toUpperCase()} • {resource.classes?.name || "Everyone"} • {new Date(resource.created_at).toLocaleDateString()}
+                        {resource.file_updated_at && ` • Version ${resource.current_version}, updated ${new Date(resource.file_updated_at).toLocaleDateString()}`}
                       </p>
                     </div>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleDelete(resource.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditingResource(resource)}
+                        aria-label="Edit details"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => chooseReplacement(resource.id)}
+                        disabled={replacingId !== null}
+                        aria-label="Replace file"
+                      >
+                        {replacingId === resource.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <FileUp className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryResource(resource)}
+                        aria-label="Version history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(resource.id)}
+                        disabled={replacingId === resource.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 ))}
               </div>
             )}
           </CardContent>
         </Card>
+
+        <input
+          ref={replaceInputRef}
+          type="file"
+          accept="video/*,image/*,.pdf"
+          className="hidden"
+          onChange={(e) => {
+            handleReplace(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+
+        {editingResource && (
+          <ResourceEditDialog
+            resource={editingResource}
+            categories={categories}
+            classes={myClasses}
+            open
+            onOpenChange={(open) => !open && setEditingResource(null)}
+            onSaved={() => {
+              setEditingResource(null);
+              fetchMyResources();
+            }}
+          />
+        )}
+
+        {historyResource && (
+          <ResourceVersionsDialog
+            resource={historyResource}
+            open
+            onOpenChange={(open) => !open && setHistoryResource(null)}
+            onRestored={() => {
+              setHistoryResource(null);
+              fetchMyResources();
+            }}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
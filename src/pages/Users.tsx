@@ -1,15 +1,29 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/integrations/supabase/auth";
+import { Database } from "@/integrations/supabase/types";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { RoleRequestsCard } from "@/components/RoleRequestsCard";
+import { AuditLogCard } from "@/components/AuditLogCard";
+import { RolePermissionsCard } from "@/components/RolePermissionsCard";
+import { UserActionsMenu } from "@/components/UserActionsMenu";
+import { AnalyticsRangePicker } from "@/components/AnalyticsRangePicker";
+import { ExportMenu } from "@/components/ExportMenu";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { exportFilename, summarySheet, userActivitySheet } from "@/lib/analytics-export";
+import { AnalyticsRange, RangePreset, getPresetRange, useAnalyticsExportData } from "@/hooks/use-analytics";
+import { usePermission } from "@/hooks/use-permission";
 import { Users as UsersIcon, GraduationCap, BookOpen, Shield } from "lucide-react";
 
 interface UserData {
   id: string;
+  user_id: string;
   full_name: string | null;
-  user_roles: { role: string }[];
+  is_active: boolean;
+  user_roles: { role: Database["public"]["Enums"]["app_role"] }[];
   resources?: { id: string }[];
 }
 
@@ -21,6 +35,11 @@ const Users = () => {
     teachers: 0,
     admins: 0,
   });
+  const { user: currentUser, hasRole, refreshRoles } = useAuth();
+  const canExportActivity = usePermission("analytics.view_all");
+  const [exportPreset, setExportPreset] = useState<RangePreset>("30d");
+  const [exportRange, setExportRange] = useState<AnalyticsRange>(() => getPresetRange("30d"));
+  const { fetchResourceMetrics, fetchUserActivity } = useAnalyticsExportData({ type: "all" }, exportRange);
 
   useEffect(() => {
     fetchUsers();
@@ -29,7 +48,7 @@ const Users = () => {
   const fetchUsers = async () => {
     const { data: profiles } = await supabase
       .from("profiles")
-      .select("id, full_name, user_id");
+      .select("id, full_name, user_id, is_active");
 
     if (profiles) {
       const usersWithData = await Promise.all(
@@ -75,6 +94,15 @@ const Users = () => {
     }
   };
 
+  const activeAdminCount = users.filter(
+    (u) => u.is_active && u.user_roles.some((r) => r.role === "admin")
+  ).length;
+
+  const getExportSheets = async () => {
+    const [metrics, activity] = await Promise.all([fetchResourceMetrics(), fetchUserActivity()]);
+    return [summarySheet("All resources", exportRange, metrics), userActivitySheet(activity)];
+  };
+
   const getRoleBadge = (role: string) => {
     const variants: Record<string, { variant: "default" | "secondary" | "destructive"; icon: any }> = {
       student: { variant: "default", icon: GraduationCap },
@@ -95,9 +123,25 @@ const Users = () => {
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">User Management</h1>
-          <p className="text-muted-foreground">Monitor users and their activities</p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">User Management</h1>
+            <p className="text-muted-foreground">Monitor users and their activities</p>
+          </div>
+          {/* Activity exports name people across all resources */}
+          {canExportActivity && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <AnalyticsRangePicker
+                preset={exportPreset}
+                range={exportRange}
+                onRangeChange={(nextPreset, nextRange) => {
+                  setExportPreset(nextPreset);
+                  setExportRange(nextRange);
+                }}
+              />
+              <ExportMenu filename={exportFilename("user-activity", exportRange)} getSheets={getExportSheets} />
+            </div>
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -143,6 +187,8 @@ const Users = () => {
           </Card>
         </div>
 
+        <RoleRequestsCard onReviewed={fetchUsers} />
+
         {/* Users List */}
         <Card>
           <CardHeader>
@@ -154,7 +200,10 @@ const Users = () => {
               {users.map((user) => (
                 <div
                   key={user.id}
-                  className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                  className={cn(
+                    "flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors",
+                    !user.is_active && "opacity-60"
+                  )}
                 >
                   <div className="flex items-center gap-4">
                     <Avatar>
@@ -163,24 +212,54 @@ const Users = () => {
                       </AvatarFallback>
                     </Avatar>
                     <div>
-                      <h3 className="font-medium">{user.full_name || "Unknown User"}</h3>
+                      <h3 className="font-medium">
+                        {user.full_name || "Unknown User"}
+                        {user.user_id === currentUser?.id && (
+                          <span className="text-muted-foreground font-normal"> (you)</span>
+                        )}
+                      </h3>
                       <div className="flex gap-2 mt-1">
                         {user.user_roles.map((roleObj, index) => (
                           <div key={index}>{getRoleBadge(roleObj.role)}</div>
                         ))}
+                        {!user.is_active && <Badge variant="outline">Deactivated</Badge>}
                       </div>
                     </div>
                   </div>
-                  <div className="text-sm text-muted-foreground">
-                    {user.resources && user.resources.length > 0 && (
-                      <span>{user.resources.length} resources uploaded</span>
-                    )}
+                  <div className="flex items-center gap-4">
+                    <div className="text-sm text-muted-foreground">
+                      {user.resources && user.resources.length > 0 && (
+                        <span>{user.resources.length} resources uploaded</span>
+                      )}
+                    </div>
+                    <UserActionsMenu
+                      user={{
+                        user_id: user.user_id,
+                        full_name: user.full_name,
+                        is_active: user.is_active,
+                        roles: user.user_roles.map((r) => r.role),
+                      }}
+                      isSelf={user.user_id === currentUser?.id}
+                      isLastAdmin={
+                        user.is_active && user.user_roles.some((r) => r.role === "admin") && activeAdminCount <= 1
+                      }
+                      onChanged={() => {
+                        fetchUsers();
+                        // Keep navigation in step when admins change their own roles
+                        if (user.user_id === currentUser?.id) refreshRoles();
+                      }}
+                    />
                   </div>
                 </div>
               ))}
             </div>
           </CardContent>
         </Card>
+
+        {/* Only admins may change what each role can do */}
+        {hasRole("admin") && <RolePermissionsCard />}
+
+        <AuditLogCard />
       </div>
     </DashboardLayout>
   );
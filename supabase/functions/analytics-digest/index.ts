@@ -0,0 +1,207 @@
+// Emails every uploader who has not opted out a summary of the views and
+// downloads their resources got over the last week, including the resources
+// nobody opened. A pg_cron job (see the analytics-digest-weekly migration)
+// calls it every Monday with the service role key; pass { "dryRun": true } to
+// get the rendered emails back without sending them.
+//
+// Run locally against the Inbucket mail sink of `supabase start`, where sent
+// mail shows up at http://localhost:54324. Functions run in a container on the
+// Supabase docker network, so reach Inbucket by its container name
+// (supabase_inbucket_<project_id> from config.toml) on its internal SMTP port.
+// Put these in supabase/functions/.env:
+//   SMTP_HOSTNAME=supabase_inbucket_fvmkvbtibsvwmvknozmj
+//   SMTP_PORT=2500
+//   SMTP_INSECURE=true
+//   SMTP_FROM=digest@lms.test
+//   APP_URL=http://localhost:8080
+// then:
+//   supabase functions serve analytics-digest
+//   curl -X POST http://localhost:54321/functions/v1/analytics-digest \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+//     -d '{ "dryRun": false, "days": 7 }'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { isAdminOrServiceRole } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_DAYS = 31;
+
+interface DigestEntry {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  resource_id: string;
+  title: string;
+  views: number;
+  downloads: number;
+  total_views: number;
+}
+
+interface Digest {
+  userId: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const renderDigest = (entries: DigestEntry[], start: Date, end: Date, appUrl: string): Digest => {
+  const [{ user_id, email, full_name }] = entries;
+  const views = entries.reduce((total, entry) => total + entry.views, 0);
+  const downloads = entries.reduce((total, entry) => total + entry.downloads, 0);
+  const used = entries.filter((entry) => entry.views > 0 || entry.downloads > 0);
+  const unopened = entries.filter((entry) => entry.views === 0);
+
+  const period = `${formatDay(start)} – ${formatDay(end)}`;
+  const greeting = `Hi ${full_name || "there"},`;
+  const intro = `Between ${period} your ${plural(entries.length, "resource")} got ${plural(views, "view")} and ${plural(downloads, "download")}.`;
+  const usedLine = (entry: DigestEntry) =>
+    `${entry.title}: ${plural(entry.views, "view")}, ${plural(entry.downloads, "download")}`;
+  const unopenedLine = (entry: DigestEntry) =>
+    entry.total_views === 0 ? `${entry.title} (never opened)` : entry.title;
+  const analyticsUrl = `${appUrl}/analytics`;
+  const footer = "You can turn this email off on the Analytics page.";
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    ...(used.length ? ["", "Views and downloads:", ...used.map((entry) => `- ${usedLine(entry)}`)] : []),
+    ...(unopened.length ? ["", "Nobody opened these:", ...unopened.map((entry) => `- ${unopenedLine(entry)}`)] : []),
+    "",
+    `Full analytics: ${analyticsUrl}`,
+    "",
+    footer,
+  ].join("\n");
+
+  const list = (items: string[]) => `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    used.length ? `<h3>Views and downloads</h3>${list(used.map(usedLine))}` : "",
+    unopened.length ? `<h3>Nobody opened these</h3>${list(unopened.map(unopenedLine))}` : "",
+    `<p><a href="${escapeHtml(analyticsUrl)}">Open full analytics</a></p>`,
+    `<p style="color:#888;font-size:12px">${escapeHtml(footer)}</p>`,
+  ].join("");
+
+  return {
+    userId: user_id,
+    to: email,
+    subject: `Your weekly resource digest: ${plural(views, "view")}, ${plural(downloads, "download")}`,
+    text,
+    html,
+  };
+};
+
+const createMailer = () => {
+  // SMTP_INSECURE skips TLS entirely, for local sinks only
+  const insecure = Deno.env.get("SMTP_INSECURE") === "true";
+  const username = Deno.env.get("SMTP_USERNAME");
+
+  return new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOSTNAME")!,
+      port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username ? { username, password: Deno.env.get("SMTP_PASSWORD") ?? "" } : undefined,
+    },
+    debug: insecure ? { allowUnsecure: true, noStartTLS: true } : undefined,
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    // Only admins, or the service role itself (scheduled runs), may send digests
+    if (!(await isAdminOrServiceRole(req, supabase, serviceRoleKey))) {
+      return json({ error: "Only admins can send analytics digests" }, 403);
+    }
+
+    const { dryRun = false, days = 7 } = req.method === "POST"
+      ? await req.json().catch(() => ({}))
+      : {};
+
+    const periodDays = Math.min(Math.max(Math.floor(Number(days)) || 7, 1), MAX_DAYS);
+    const end = new Date();
+    const start = new Date(end.getTime() - periodDays * 24 * 60 * 60 * 1000);
+
+    const { data: entries, error: entriesError } = await supabase.rpc("analytics_digest_entries", {
+      _start: start.toISOString(),
+      _end: end.toISOString(),
+    });
+    if (entriesError) throw entriesError;
+
+    // Entries come ordered by recipient
+    const byUser = new Map<string, DigestEntry[]>();
+    (entries as DigestEntry[]).forEach((entry) => {
+      byUser.set(entry.user_id, [...(byUser.get(entry.user_id) ?? []), entry]);
+    });
+
+    const appUrl = (Deno.env.get("APP_URL") ?? "").replace(/\/$/, "");
+    const digests = Array.from(byUser.values(), (userEntries) => renderDigest(userEntries, start, end, appUrl));
+
+    if (dryRun) {
+      return json({ dryRun, start, end, digests });
+    }
+
+    if (digests.length === 0) {
+      return json({ dryRun, start, end, sent: 0, failed: [] });
+    }
+
+    const from = Deno.env.get("SMTP_FROM")!;
+    const mailer = createMailer();
+    const sent: string[] = [];
+    const failed: { userId: string; error: string }[] = [];
+
+    try {
+      // One recipient failing should not hold back everyone else's digest
+      for (const digest of digests) {
+        try {
+          await mailer.send({ from, to: digest.to, subject: digest.subject, content: digest.text, html: digest.html });
+
+          const { error } = await supabase
+            .from("profiles")
+            .update({ analytics_digest_sent_at: end.toISOString() })
+            .eq("user_id", digest.userId);
+          if (error) throw error;
+
+          sent.push(digest.userId);
+        } catch (error) {
+          console.error(`Error sending analytics digest to ${digest.userId}:`, error);
+          failed.push({ userId: digest.userId, error: (error as Error).message });
+        }
+      }
+    } finally {
+      await mailer.close();
+    }
+
+    return json({ dryRun, start, end, sent: sent.length, failed });
+  } catch (error) {
+    console.error("Error sending analytics digests:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
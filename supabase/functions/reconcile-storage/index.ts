@@ -0,0 +1,83 @@
+// Finds files in the learning-resources bucket that no resource points at:
+// files queued when their resource was deleted, and files whose resource row
+// was never written. Reports them by default; pass { "purge": true } to
+// remove them.
+//
+// Run locally:
+//   supabase functions serve reconcile-storage
+//   curl -X POST http://localhost:54321/functions/v1/reconcile-storage \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+//     -d '{ "purge": false, "olderThanHours": 24 }'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdminOrServiceRole } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BUCKET = "learning-resources";
+const REMOVE_BATCH_SIZE = 100;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    // Only admins, or the service role itself (scheduled runs), may reconcile
+    if (!(await isAdminOrServiceRole(req, supabase, serviceRoleKey))) {
+      return json({ error: "Only admins can reconcile storage" }, 403);
+    }
+
+    const { purge = false, olderThanHours = 24 } = req.method === "POST"
+      ? await req.json().catch(() => ({}))
+      : {};
+
+    // A number, or a numeric string from a hand-written request
+    const hours = typeof olderThanHours === "number" || typeof olderThanHours === "string"
+      ? Number(olderThanHours)
+      : NaN;
+    if (String(olderThanHours).trim() === "" || !Number.isFinite(hours) || hours < 0) {
+      return json({ error: "olderThanHours must be a number of hours, 0 or more" }, 400);
+    }
+
+    const { data: prunedQueueEntries, error: pruneError } = await supabase.rpc("prune_storage_cleanup_queue");
+    if (pruneError) throw pruneError;
+
+    const { data: orphans, error: findError } = await supabase.rpc("find_orphaned_storage_objects", {
+      _older_than: `${hours} hours`,
+    });
+    if (findError) throw findError;
+
+    let removed = 0;
+    if (purge) {
+      for (let i = 0; i < orphans.length; i += REMOVE_BATCH_SIZE) {
+        const names = orphans.slice(i, i + REMOVE_BATCH_SIZE).map((orphan) => orphan.object_name);
+        const { data, error } = await supabase.storage.from(BUCKET).remove(names);
+        if (error) throw error;
+        removed += data.length;
+      }
+    }
+
+    return json({
+      purge,
+      orphans,
+      orphanedBytes: orphans.reduce((total, orphan) => total + (orphan.size ?? 0), 0),
+      removed,
+      prunedQueueEntries,
+    });
+  } catch (error) {
+    console.error("Error reconciling storage:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,114 @@
+-- Full-text search column over title (weight A) and description (weight B)
+ALTER TABLE public.resources
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX resources_search_vector_idx
+  ON public.resources USING GIN (search_vector);
+
+CREATE INDEX resources_category_id_idx ON public.resources (category_id);
+CREATE INDEX resources_file_type_idx ON public.resources (file_type);
+
+-- Turn free text typed by a user into a prefix-matching tsquery,
+-- e.g. "alg equat" becomes 'alg':* & 'equat':*
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query TEXT)
+RETURNS tsquery
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery(
+    'english',
+    (
+      SELECT string_agg(quote_literal(word) || ':*', ' & ')
+      FROM regexp_split_to_table(lower(coalesce(_query, '')), '[^[:alnum:]]+') AS word
+      WHERE word <> ''
+    )
+  )
+$$;
+
+-- Ranked, filterable and paginated resource search.
+-- An empty query returns every resource matching the filters, newest first.
+-- Runs with the caller's privileges so RLS on resources still applies.
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _file_type TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 12,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  file_url TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  view_count INTEGER,
+  download_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  category_id UUID,
+  category_name TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, q.tsq) END AS search_rank
+    FROM public.resources r, q
+    WHERE (q.tsq IS NULL OR r.search_vector @@ q.tsq)
+      AND (_category_id IS NULL OR r.category_id = _category_id)
+      AND (_file_type IS NULL OR r.file_type = _file_type)
+  ),
+  page AS (
+    SELECT m.*, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.search_rank DESC, m.created_at DESC, m.id
+    LIMIT greatest(_limit, 1)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.file_url,
+    p.file_type,
+    p.file_size,
+    p.view_count,
+    p.download_count,
+    p.created_at,
+    p.category_id,
+    c.name AS category_name,
+    pr.full_name AS uploader_name,
+    p.search_rank::REAL AS rank,
+    CASE
+      WHEN q.tsq IS NULL THEN p.title
+      ELSE ts_headline('english', p.title, q.tsq,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"')
+    END AS title_highlight,
+    CASE
+      WHEN q.tsq IS NULL OR p.description IS NULL THEN p.description
+      ELSE ts_headline('english', p.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, StartSel="<mark>", StopSel="</mark>"')
+    END AS description_snippet,
+    p.total_count
+  FROM page p
+  CROSS JOIN q
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.uploaded_by
+  ORDER BY p.search_rank DESC, p.created_at DESC, p.id
+$$;
@@ -0,0 +1,117 @@
+-- Counters are sort keys for the resource feed, so they must never be NULL
+UPDATE public.resources SET view_count = 0 WHERE view_count IS NULL;
+UPDATE public.resources SET download_count = 0 WHERE download_count IS NULL;
+
+ALTER TABLE public.resources
+  ALTER COLUMN view_count SET NOT NULL,
+  ALTER COLUMN download_count SET NOT NULL;
+
+-- Let PostgREST embed the uploader's profile in the same request as the resource
+INSERT INTO public.profiles (user_id)
+SELECT DISTINCT r.uploaded_by
+FROM public.resources r
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.profiles p WHERE p.user_id = r.uploaded_by
+);
+
+ALTER TABLE public.resources
+  ADD CONSTRAINT resources_uploaded_by_profiles_fkey
+  FOREIGN KEY (uploaded_by) REFERENCES public.profiles(user_id);
+
+-- Keyset pagination indexes, one per feed sort order
+CREATE INDEX resources_created_at_id_idx ON public.resources (created_at DESC, id DESC);
+CREATE INDEX resources_view_count_id_idx ON public.resources (view_count DESC, id DESC);
+CREATE INDEX resources_download_count_id_idx ON public.resources (download_count DESC, id DESC);
+
+-- Search results can now be ordered like the feed as well as by relevance
+DROP FUNCTION public.search_resources(TEXT, UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _file_type TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 12,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  file_url TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  view_count INTEGER,
+  download_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  category_id UUID,
+  category_name TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, q.tsq) END AS search_rank
+    FROM public.resources r, q
+    WHERE (q.tsq IS NULL OR r.search_vector @@ q.tsq)
+      AND (_category_id IS NULL OR r.category_id = _category_id)
+      AND (_file_type IS NULL OR r.file_type = _file_type)
+  ),
+  page AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE _sort WHEN 'views' THEN m.view_count WHEN 'downloads' THEN m.download_count END DESC NULLS LAST,
+          CASE WHEN _sort = 'relevance' THEN m.search_rank END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id DESC
+      ) AS position
+    FROM matches m
+    ORDER BY position
+    LIMIT greatest(_limit, 1)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.file_url,
+    p.file_type,
+    p.file_size,
+    p.view_count,
+    p.download_count,
+    p.created_at,
+    p.category_id,
+    c.name AS category_name,
+    pr.full_name AS uploader_name,
+    p.search_rank::REAL AS rank,
+    CASE
+      WHEN q.tsq IS NULL THEN p.title
+      ELSE ts_headline('english', p.title, q.tsq,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"')
+    END AS title_highlight,
+    CASE
+      WHEN q.tsq IS NULL OR p.description IS NULL THEN p.description
+      ELSE ts_headline('english', p.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, StartSel="<mark>", StopSel="</mark>"')
+    END AS description_snippet,
+    p.total_count
+  FROM page p
+  CROSS JOIN q
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.uploaded_by
+  ORDER BY p.position
+$$;
@@ -0,0 +1,81 @@
+-- Record a view: log the event and bump the counter in one transaction
+CREATE OR REPLACE FUNCTION public.record_view(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _view_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE public.resources
+  SET view_count = view_count + 1
+  WHERE id = _resource_id
+  RETURNING view_count INTO _view_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.resource_views (resource_id, user_id)
+  VALUES (_resource_id, auth.uid());
+
+  RETURN _view_count;
+END;
+$$;
+
+-- Record a download: bump the counter atomically
+CREATE OR REPLACE FUNCTION public.record_download(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _download_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE public.resources
+  SET download_count = download_count + 1
+  WHERE id = _resource_id
+  RETURNING download_count INTO _download_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN _download_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_view(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_download(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_view(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_download(UUID) TO authenticated;
+
+-- View events are only written through record_view now
+DROP POLICY "Users can create own views" ON public.resource_views;
+
+-- Counters are only writable through the functions above: clients keep
+-- column-level INSERT/UPDATE on everything else
+REVOKE INSERT, UPDATE ON public.resources FROM anon, authenticated;
+GRANT INSERT (title, description, category_id, file_url, file_type, file_size, uploaded_by)
+  ON public.resources TO authenticated;
+GRANT UPDATE (title, description, category_id, file_url, file_type, file_size)
+  ON public.resources TO authenticated;
+
+-- Counter bumps are not edits, so only touch updated_at when content changes
+DROP TRIGGER update_resources_updated_at ON public.resources;
+
+CREATE TRIGGER update_resources_updated_at
+  BEFORE UPDATE OF title, description, category_id, file_url, file_type, file_size
+  ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,60 @@
+-- Create resource_downloads table for analytics and download history
+CREATE TABLE public.resource_downloads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  downloaded_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX resource_downloads_resource_id_idx ON public.resource_downloads (resource_id);
+CREATE INDEX resource_downloads_downloaded_at_idx ON public.resource_downloads (downloaded_at);
+CREATE INDEX resource_downloads_user_id_downloaded_at_idx
+  ON public.resource_downloads (user_id, downloaded_at DESC);
+
+CREATE INDEX resource_views_viewed_at_idx ON public.resource_views (viewed_at);
+
+ALTER TABLE public.resource_downloads ENABLE ROW LEVEL SECURITY;
+
+-- Resource downloads RLS policies
+CREATE POLICY "Teachers and admins can view download analytics"
+  ON public.resource_downloads FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'teacher') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Users can view own downloads"
+  ON public.resource_downloads FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Download events are written by record_download alongside the counter
+CREATE OR REPLACE FUNCTION public.record_download(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _download_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE public.resources
+  SET download_count = download_count + 1
+  WHERE id = _resource_id
+  RETURNING download_count INTO _download_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.resource_downloads (resource_id, user_id)
+  VALUES (_resource_id, auth.uid());
+
+  RETURN _download_count;
+END;
+$$;
@@ -0,0 +1,190 @@
+-- Create courses table
+CREATE TABLE public.courses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  is_published BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create course_modules table: ordered sections of a course
+CREATE TABLE public.course_modules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID REFERENCES public.courses(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create module_items table: ordered lessons, each backed by an uploaded resource
+CREATE TABLE public.module_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_id UUID REFERENCES public.course_modules(id) ON DELETE CASCADE NOT NULL,
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE NOT NULL,
+  title TEXT,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX courses_created_by_idx ON public.courses (created_by);
+CREATE INDEX course_modules_course_id_position_idx ON public.course_modules (course_id, position);
+CREATE INDEX module_items_module_id_position_idx ON public.module_items (module_id, position);
+CREATE INDEX module_items_resource_id_idx ON public.module_items (resource_id);
+
+-- Enable RLS
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_modules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.module_items ENABLE ROW LEVEL SECURITY;
+
+-- Create security definer functions to check course access
+CREATE OR REPLACE FUNCTION public.can_view_course(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.courses
+    WHERE id = _course_id
+      AND (
+        is_published OR
+        created_by = _user_id OR
+        public.has_role(_user_id, 'admin')
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_course(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.courses
+    WHERE id = _course_id
+      AND (
+        created_by = _user_id OR
+        public.has_role(_user_id, 'admin')
+      )
+  )
+$$;
+
+-- Courses RLS policies
+CREATE POLICY "Users can view published or own courses"
+  ON public.courses FOR SELECT
+  TO authenticated
+  USING (
+    is_published OR
+    auth.uid() = created_by OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Teachers can create courses"
+  ON public.courses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    (
+      public.has_role(auth.uid(), 'teacher') OR
+      public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+CREATE POLICY "Teachers can update own courses"
+  ON public.courses FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Teachers can delete own courses"
+  ON public.courses FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Course modules RLS policies
+CREATE POLICY "Users can view modules of visible courses"
+  ON public.course_modules FOR SELECT
+  TO authenticated
+  USING (public.can_view_course(auth.uid(), course_id));
+
+CREATE POLICY "Teachers can manage modules of own courses"
+  ON public.course_modules FOR ALL
+  TO authenticated
+  USING (public.can_manage_course(auth.uid(), course_id))
+  WITH CHECK (public.can_manage_course(auth.uid(), course_id));
+
+-- Module items RLS policies
+CREATE POLICY "Users can view items of visible courses"
+  ON public.module_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.course_modules m
+      WHERE m.id = module_id AND public.can_view_course(auth.uid(), m.course_id)
+    )
+  );
+
+CREATE POLICY "Teachers can manage items of own courses"
+  ON public.module_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.course_modules m
+      WHERE m.id = module_id AND public.can_manage_course(auth.uid(), m.course_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.course_modules m
+      WHERE m.id = module_id AND public.can_manage_course(auth.uid(), m.course_id)
+    )
+  );
+
+-- Persist a drag-and-drop reorder in one statement; positions follow array order.
+-- Runs with the caller's privileges, so RLS limits it to the course owner.
+CREATE OR REPLACE FUNCTION public.reorder_course_modules(_course_id UUID, _module_ids UUID[])
+RETURNS VOID
+LANGUAGE SQL
+SET search_path = public
+AS $$
+  UPDATE public.course_modules
+  SET position = array_position(_module_ids, id) - 1
+  WHERE course_id = _course_id
+    AND id = ANY(_module_ids)
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_module_items(_module_id UUID, _item_ids UUID[])
+RETURNS VOID
+LANGUAGE SQL
+SET search_path = public
+AS $$
+  UPDATE public.module_items
+  SET position = array_position(_item_ids, id) - 1
+  WHERE module_id = _module_id
+    AND id = ANY(_item_ids)
+$$;
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_courses_updated_at
+  BEFORE UPDATE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_course_modules_updated_at
+  BEFORE UPDATE ON public.course_modules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
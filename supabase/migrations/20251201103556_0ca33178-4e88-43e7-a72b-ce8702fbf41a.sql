@@ -0,0 +1,372 @@
+-- Generate a short, unambiguous join code that students type to enroll
+CREATE OR REPLACE FUNCTION public.generate_join_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  _code TEXT;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(_alphabet, 1 + floor(random() * length(_alphabet))::INTEGER, 1), '')
+    INTO _code
+    FROM generate_series(1, 6);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.classes WHERE join_code = _code);
+  END LOOP;
+
+  RETURN _code;
+END;
+$$;
+
+-- Create classes table
+CREATE TABLE public.classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  join_code TEXT NOT NULL UNIQUE DEFAULT public.generate_join_code(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create enrollments table
+CREATE TABLE public.enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (class_id, user_id)
+);
+
+CREATE INDEX classes_teacher_id_idx ON public.classes (teacher_id);
+CREATE INDEX enrollments_user_id_idx ON public.enrollments (user_id);
+
+-- Resources scoped to a class; NULL keeps a resource visible to everyone
+ALTER TABLE public.resources
+  ADD COLUMN class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL;
+
+CREATE INDEX resources_class_id_idx ON public.resources (class_id);
+
+GRANT INSERT (class_id), UPDATE (class_id) ON public.resources TO authenticated;
+
+-- Enable RLS
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Create security definer functions to check class membership
+CREATE OR REPLACE FUNCTION public.is_class_teacher(_user_id UUID, _class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.classes
+    WHERE id = _class_id AND teacher_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_enrolled(_user_id UUID, _class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.enrollments
+    WHERE class_id = _class_id AND user_id = _user_id
+  )
+$$;
+
+-- Visibility rule shared by the resources policy, the storage policy and the
+-- SECURITY DEFINER counter functions, which bypass RLS
+CREATE OR REPLACE FUNCTION public.can_view_resource(_user_id UUID, _resource_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.resources
+    WHERE id = _resource_id
+      AND (
+        class_id IS NULL OR
+        uploaded_by = _user_id OR
+        public.has_role(_user_id, 'admin') OR
+        public.is_class_teacher(_user_id, class_id) OR
+        public.is_enrolled(_user_id, class_id)
+      )
+  )
+$$;
+
+-- Classes RLS policies
+CREATE POLICY "Members can view their classes"
+  ON public.classes FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = teacher_id OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.is_enrolled(auth.uid(), id)
+  );
+
+CREATE POLICY "Teachers can create classes"
+  ON public.classes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = teacher_id AND
+    (
+      public.has_role(auth.uid(), 'teacher') OR
+      public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+CREATE POLICY "Teachers can update own classes"
+  ON public.classes FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = teacher_id OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Teachers can delete own classes"
+  ON public.classes FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = teacher_id OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Enrollments RLS policies (students enroll through join_class)
+CREATE POLICY "Users can view own enrollments"
+  ON public.enrollments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Teachers can view their rosters"
+  ON public.enrollments FOR SELECT
+  TO authenticated
+  USING (
+    public.is_class_teacher(auth.uid(), class_id) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Users can leave classes and teachers can remove students"
+  ON public.enrollments FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    public.is_class_teacher(auth.uid(), class_id) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Resources RLS policies: class-scoped resources are only visible to members
+DROP POLICY "Everyone can view resources" ON public.resources;
+
+CREATE POLICY "Users can view public and own class resources"
+  ON public.resources FOR SELECT
+  TO authenticated
+  USING (
+    class_id IS NULL OR
+    auth.uid() = uploaded_by OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.is_class_teacher(auth.uid(), class_id) OR
+    public.is_enrolled(auth.uid(), class_id)
+  );
+
+DROP POLICY "Teachers can create resources" ON public.resources;
+
+CREATE POLICY "Teachers can create resources"
+  ON public.resources FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (
+      public.has_role(auth.uid(), 'teacher') OR
+      public.has_role(auth.uid(), 'admin')
+    ) AND
+    (
+      class_id IS NULL OR
+      public.is_class_teacher(auth.uid(), class_id) OR
+      public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+DROP POLICY "Teachers can update own resources" ON public.resources;
+
+CREATE POLICY "Teachers can update own resources"
+  ON public.resources FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = uploaded_by OR
+    public.has_role(auth.uid(), 'admin')
+  )
+  WITH CHECK (
+    class_id IS NULL OR
+    public.is_class_teacher(auth.uid(), class_id) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Storage objects follow the visibility of the resource that references them.
+-- Objects no resource points at yet are only visible to their uploader.
+CREATE OR REPLACE FUNCTION public.can_view_resource_object(_user_id UUID, _object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (storage.foldername(_object_name))[1] = _user_id::TEXT OR
+    public.has_role(_user_id, 'admin') OR
+    EXISTS (
+      SELECT 1
+      FROM public.resources
+      WHERE file_url LIKE '%/learning-resources/' || _object_name
+        AND public.can_view_resource(_user_id, id)
+    )
+$$;
+
+DROP POLICY "Anyone can view learning resources" ON storage.objects;
+
+CREATE POLICY "Members can view learning resources"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'learning-resources' AND
+    public.can_view_resource_object(auth.uid(), name)
+  );
+
+-- Counter functions bypass RLS, so they check visibility themselves
+CREATE OR REPLACE FUNCTION public.record_view(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _view_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.can_view_resource(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.resources
+  SET view_count = view_count + 1
+  WHERE id = _resource_id
+  RETURNING view_count INTO _view_count;
+
+  INSERT INTO public.resource_views (resource_id, user_id)
+  VALUES (_resource_id, auth.uid());
+
+  RETURN _view_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_download(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _download_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.can_view_resource(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.resources
+  SET download_count = download_count + 1
+  WHERE id = _resource_id
+  RETURNING download_count INTO _download_count;
+
+  INSERT INTO public.resource_downloads (resource_id, user_id)
+  VALUES (_resource_id, auth.uid());
+
+  RETURN _download_count;
+END;
+$$;
+
+-- Enroll the caller in the class with the given join code
+CREATE OR REPLACE FUNCTION public.join_class(_join_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT id INTO _class_id
+  FROM public.classes
+  WHERE join_code = upper(trim(_join_code));
+
+  IF _class_id IS NULL THEN
+    RAISE EXCEPTION 'No class found for that join code' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.enrollments (class_id, user_id)
+  VALUES (_class_id, auth.uid())
+  ON CONFLICT (class_id, user_id) DO NOTHING;
+
+  RETURN _class_id;
+END;
+$$;
+
+-- Replace a leaked join code; existing enrollments are kept
+CREATE OR REPLACE FUNCTION public.regenerate_join_code(_class_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _join_code TEXT;
+BEGIN
+  IF NOT (
+    public.is_class_teacher(auth.uid(), _class_id) OR
+    public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only the class teacher can change the join code' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.classes
+  SET join_code = public.generate_join_code()
+  WHERE id = _class_id
+  RETURNING join_code INTO _join_code;
+
+  RETURN _join_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_class(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.regenerate_join_code(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_class(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_join_code(UUID) TO authenticated;
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_classes_updated_at
+  BEFORE UPDATE ON public.classes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
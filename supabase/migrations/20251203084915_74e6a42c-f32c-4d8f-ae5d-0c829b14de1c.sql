@@ -0,0 +1,147 @@
+-- Resource files are no longer public: they are served through short-lived
+-- signed URLs, so resources store the object path instead of a public URL
+UPDATE storage.buckets SET public = false WHERE id = 'learning-resources';
+
+ALTER TABLE public.resources RENAME COLUMN file_url TO file_path;
+
+UPDATE public.resources
+SET file_path = regexp_replace(file_path, '^.*/storage/v1/object/public/learning-resources/', '')
+WHERE file_path LIKE '%/storage/v1/object/public/learning-resources/%';
+
+-- Objects are matched on their exact path now
+CREATE OR REPLACE FUNCTION public.can_view_resource_object(_user_id UUID, _object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (storage.foldername(_object_name))[1] = _user_id::TEXT OR
+    public.has_role(_user_id, 'admin') OR
+    EXISTS (
+      SELECT 1
+      FROM public.resources
+      WHERE file_path = _object_name
+        AND public.can_view_resource(_user_id, id)
+    )
+$$;
+
+-- Uploaders may only replace or remove objects in their own folder
+DROP POLICY "Teachers can update own resources" ON storage.objects;
+DROP POLICY "Teachers can delete own resources" ON storage.objects;
+
+CREATE POLICY "Teachers can update own resources"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'learning-resources' AND
+    (
+      (storage.foldername(name))[1] = auth.uid()::TEXT OR
+      public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+CREATE POLICY "Teachers can delete own resources"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'learning-resources' AND
+    (
+      (storage.foldername(name))[1] = auth.uid()::TEXT OR
+      public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+-- search_resources returns file_path instead of file_url
+DROP FUNCTION public.search_resources(TEXT, UUID, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _file_type TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 12,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  file_path TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  view_count INTEGER,
+  download_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  category_id UUID,
+  category_name TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, q.tsq) END AS search_rank
+    FROM public.resources r, q
+    WHERE (q.tsq IS NULL OR r.search_vector @@ q.tsq)
+      AND (_category_id IS NULL OR r.category_id = _category_id)
+      AND (_file_type IS NULL OR r.file_type = _file_type)
+  ),
+  page AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE _sort WHEN 'views' THEN m.view_count WHEN 'downloads' THEN m.download_count END DESC NULLS LAST,
+          CASE WHEN _sort = 'relevance' THEN m.search_rank END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id DESC
+      ) AS position
+    FROM matches m
+    ORDER BY position
+    LIMIT greatest(_limit, 1)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.file_path,
+    p.file_type,
+    p.file_size,
+    p.view_count,
+    p.download_count,
+    p.created_at,
+    p.category_id,
+    c.name AS category_name,
+    pr.full_name AS uploader_name,
+    p.search_rank::REAL AS rank,
+    CASE
+      WHEN q.tsq IS NULL THEN p.title
+      ELSE ts_headline('english', p.title, q.tsq,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"')
+    END AS title_highlight,
+    CASE
+      WHEN q.tsq IS NULL OR p.description IS NULL THEN p.description
+      ELSE ts_headline('english', p.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, StartSel="<mark>", StopSel="</mark>"')
+    END AS description_snippet,
+    p.total_count
+  FROM page p
+  CROSS JOIN q
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.uploaded_by
+  ORDER BY p.position
+$$;
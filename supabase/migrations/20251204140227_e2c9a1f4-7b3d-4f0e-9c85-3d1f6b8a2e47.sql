@@ -0,0 +1,93 @@
+-- Create role_upload_limits table: the largest single file each role may upload
+CREATE TABLE public.role_upload_limits (
+  role app_role PRIMARY KEY,
+  max_file_size BIGINT NOT NULL CHECK (max_file_size >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.role_upload_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view upload limits"
+  ON public.role_upload_limits FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage upload limits"
+  ON public.role_upload_limits FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_role_upload_limits_updated_at
+  BEFORE UPDATE ON public.role_upload_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.role_upload_limits (role, max_file_size) VALUES
+  ('student', 0),
+  ('teacher', 2147483648),
+  ('admin', 5368709120);
+
+-- A user's limit is the most generous of their roles; no role means no uploads
+CREATE OR REPLACE FUNCTION public.max_upload_size(_user_id UUID)
+RETURNS BIGINT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(MAX(l.max_file_size), 0)
+  FROM public.user_roles ur
+  JOIN public.role_upload_limits l ON l.role = ur.role
+  WHERE ur.user_id = _user_id
+$$;
+
+-- Enforce the limit on the stored object itself, whichever upload path wrote it.
+-- Service-role writes (no auth.uid()) are not limited.
+CREATE OR REPLACE FUNCTION public.enforce_upload_size_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_file_size BIGINT;
+BEGIN
+  IF NEW.bucket_id <> 'learning-resources' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _max_file_size := public.max_upload_size(auth.uid());
+
+  IF COALESCE((NEW.metadata->>'size')::BIGINT, 0) > _max_file_size THEN
+    RAISE EXCEPTION 'File exceeds your upload limit of % bytes', _max_file_size
+      USING ERRCODE = '54000';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_learning_resources_upload_size
+  BEFORE INSERT OR UPDATE OF metadata ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_upload_size_limit();
+
+-- The recorded file size must respect the same limit
+DROP POLICY "Teachers can create resources" ON public.resources;
+
+CREATE POLICY "Teachers can create resources"
+  ON public.resources FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (
+      public.has_role(auth.uid(), 'teacher') OR
+      public.has_role(auth.uid(), 'admin')
+    ) AND
+    (
+      class_id IS NULL OR
+      public.is_class_teacher(auth.uid(), class_id) OR
+      public.has_role(auth.uid(), 'admin')
+    ) AND
+    COALESCE(file_size, 0) <= public.max_upload_size(auth.uid())
+  );
@@ -0,0 +1,114 @@
+-- Storage objects can only be removed through the Storage API, so deleting a
+-- resource queues its file here. The client removes the file right after the
+-- delete; anything left behind is purged by the reconcile-storage function.
+CREATE TABLE public.storage_cleanup_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id TEXT NOT NULL,
+  object_name TEXT NOT NULL,
+  queued_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (bucket_id, object_name)
+);
+
+ALTER TABLE public.storage_cleanup_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view storage cleanup queue"
+  ON public.storage_cleanup_queue FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Queue the file of a deleted resource
+CREATE OR REPLACE FUNCTION public.queue_resource_file_cleanup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.storage_cleanup_queue (bucket_id, object_name)
+  VALUES ('learning-resources', OLD.file_path)
+  ON CONFLICT (bucket_id, object_name) DO NOTHING;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER queue_resource_file_cleanup
+  AFTER DELETE ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_resource_file_cleanup();
+
+-- Once the object is gone, its queue entry is done
+CREATE OR REPLACE FUNCTION public.clear_storage_cleanup_queue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.storage_cleanup_queue
+  WHERE bucket_id = OLD.bucket_id AND object_name = OLD.name;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER clear_storage_cleanup_queue
+  AFTER DELETE ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_storage_cleanup_queue();
+
+-- Objects in learning-resources that no resource points at: queued deletes
+-- plus files whose resource row was never written (failed or abandoned
+-- uploads). The grace period keeps uploads that are still finishing out.
+CREATE OR REPLACE FUNCTION public.find_orphaned_storage_objects(_older_than INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS TABLE (
+  object_name TEXT,
+  size BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  queued BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    (o.metadata->>'size')::BIGINT,
+    o.created_at,
+    q.id IS NOT NULL
+  FROM storage.objects o
+  LEFT JOIN public.storage_cleanup_queue q
+    ON q.bucket_id = o.bucket_id AND q.object_name = o.name
+  WHERE o.bucket_id = 'learning-resources'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.resources r WHERE r.file_path = o.name
+    )
+    AND (q.id IS NOT NULL OR o.created_at < now() - _older_than)
+  ORDER BY o.created_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_orphaned_storage_objects(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_orphaned_storage_objects(INTERVAL) TO service_role;
+
+-- Queue entries whose object is already gone (removed before this migration,
+-- or never uploaded) have nothing left to purge
+CREATE OR REPLACE FUNCTION public.prune_storage_cleanup_queue()
+RETURNS INTEGER
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pruned AS (
+    DELETE FROM public.storage_cleanup_queue q
+    WHERE NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = q.bucket_id AND o.name = q.object_name
+    )
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM pruned
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_storage_cleanup_queue() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.prune_storage_cleanup_queue() TO service_role;
@@ -0,0 +1,232 @@
+-- Create audit_log table: who changed what, written only by database functions
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  target_user_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  details JSONB DEFAULT '{}'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX audit_log_entity_idx ON public.audit_log (entity_type, entity_id);
+CREATE INDEX audit_log_target_user_id_idx ON public.audit_log (target_user_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(
+  _action TEXT,
+  _entity_type TEXT,
+  _entity_id UUID DEFAULT NULL,
+  _target_user_id UUID DEFAULT NULL,
+  _details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.audit_log (actor_id, action, entity_type, entity_id, target_user_id, details)
+  VALUES (auth.uid(), _action, _entity_type, _entity_id, _target_user_id, _details)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_audit_event(TEXT, TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Every role grant and revoke is recorded, whichever path made it
+CREATE OR REPLACE FUNCTION public.audit_user_roles_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_audit_event('role.granted', 'user', NEW.user_id, NEW.user_id, jsonb_build_object('role', NEW.role));
+    RETURN NEW;
+  END IF;
+
+  -- Roles removed along with a deleted account have no profile left to point at
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE user_id = OLD.user_id) THEN
+    PERFORM public.log_audit_event('role.revoked', 'user', OLD.user_id, OLD.user_id, jsonb_build_object('role', OLD.role));
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER audit_user_roles_change
+  AFTER INSERT OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_user_roles_change();
+
+-- Create role_requests table: users asking an admin for teacher access
+CREATE TABLE public.role_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  requested_role app_role DEFAULT 'teacher' NOT NULL CHECK (requested_role = 'teacher'),
+  message TEXT,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- At most one open request per user
+CREATE UNIQUE INDEX role_requests_pending_user_id_idx
+  ON public.role_requests (user_id)
+  WHERE status = 'pending';
+CREATE INDEX role_requests_status_created_at_idx ON public.role_requests (status, created_at);
+
+ALTER TABLE public.role_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and reviewed through the functions below only
+CREATE POLICY "Users can view own role requests"
+  ON public.role_requests FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all role requests"
+  ON public.role_requests FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.request_teacher_role(_message TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'teacher') OR public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'You already have teacher access' USING ERRCODE = '23505';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.role_requests WHERE user_id = auth.uid() AND status = 'pending') THEN
+    RAISE EXCEPTION 'Your request is already waiting for review' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.role_requests (user_id, message)
+  VALUES (auth.uid(), NULLIF(trim(_message), ''))
+  RETURNING id INTO _request_id;
+
+  PERFORM public.log_audit_event('role_request.created', 'role_request', _request_id, auth.uid());
+
+  RETURN _request_id;
+END;
+$$;
+
+-- Approving swaps the student role for the requested one, since each user
+-- holds a single role
+CREATE OR REPLACE FUNCTION public.review_role_request(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review role requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.role_requests
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_note = NULLIF(trim(_note), '')
+  WHERE id = _request_id AND status = 'pending'
+  RETURNING * INTO _request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _approve THEN
+    DELETE FROM public.user_roles
+    WHERE user_id = _request.user_id AND role = 'student';
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_request.user_id, _request.requested_role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN _approve THEN 'role_request.approved' ELSE 'role_request.rejected' END,
+    'role_request',
+    _request.id,
+    _request.user_id,
+    jsonb_build_object('role', _request.requested_role, 'note', _request.review_note)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_teacher_role(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_teacher_role(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- New accounts always start as students. Asking for teacher access at sign-up
+-- only opens a request for an admin to review.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request_id UUID;
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name)
+  VALUES (NEW.id, NULLIF(trim(NEW.raw_user_meta_data->>'full_name'), ''))
+  ON CONFLICT (user_id) DO NOTHING;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'student')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF NEW.raw_user_meta_data->>'requested_role' = 'teacher' THEN
+    INSERT INTO public.role_requests (user_id, message)
+    VALUES (NEW.id, 'Requested at sign-up')
+    RETURNING id INTO _request_id;
+
+    PERFORM public.log_audit_event('role_request.created', 'role_request', _request_id, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Accounts left without a role by the old client-side sign-up become students
+INSERT INTO public.profiles (user_id)
+SELECT u.id
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = u.id);
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT u.id, 'student'
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = u.id);
+
+-- Profiles are created by the trigger above now
+DROP POLICY "Users can insert own profile" ON public.profiles;
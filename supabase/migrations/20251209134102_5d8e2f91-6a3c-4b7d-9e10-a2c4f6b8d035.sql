@@ -0,0 +1,169 @@
+-- Deactivated accounts keep their data but lose every role-based permission
+ALTER TABLE public.profiles
+  ADD COLUMN is_active BOOLEAN DEFAULT true NOT NULL,
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.user_id = ur.user_id
+    WHERE ur.user_id = _user_id
+      AND ur.role = _role
+      AND p.is_active
+  )
+$$;
+
+-- Users may not flip their own active flag
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (full_name, avatar_url) ON public.profiles TO authenticated;
+
+-- The last active admin can never lose the role, whichever path removes it
+CREATE OR REPLACE FUNCTION public.protect_last_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin' AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.user_id = ur.user_id
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> OLD.user_id
+      AND p.is_active
+  ) THEN
+    RAISE EXCEPTION 'The last admin cannot lose the admin role' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER protect_last_admin
+  BEFORE DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_last_admin();
+
+CREATE OR REPLACE FUNCTION public.grant_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage roles' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage roles' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.user_roles
+  WHERE user_id = _user_id AND role = _role;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User does not have this role' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Deactivating also bans the auth user, so existing sessions can't refresh
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can deactivate accounts' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT _active AND public.has_role(_user_id, 'admin') AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.user_id = ur.user_id
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> _user_id
+      AND p.is_active
+  ) THEN
+    RAISE EXCEPTION 'The last admin cannot be deactivated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    is_active = _active,
+    deactivated_at = CASE WHEN _active THEN NULL ELSE now() END
+  WHERE user_id = _user_id AND is_active <> _active;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN _active THEN NULL ELSE 'infinity'::TIMESTAMPTZ END
+  WHERE id = _user_id;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN _active THEN 'user.reactivated' ELSE 'user.deactivated' END,
+    'user',
+    _user_id,
+    _user_id
+  );
+END;
+$$;
+
+-- Clears what a user entered about themselves; roles and content are kept
+CREATE OR REPLACE FUNCTION public.reset_profile(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reset profiles' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = NULL, avatar_url = NULL
+  WHERE user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.log_audit_event('user.profile_reset', 'user', _user_id, _user_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_role(UUID, app_role) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_role(UUID, app_role) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_active(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reset_profile(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.grant_role(UUID, app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_role(UUID, app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_active(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_profile(UUID) TO authenticated;
@@ -0,0 +1,423 @@
+-- Create permissions table: the actions policies check, independent of roles
+CREATE TABLE public.permissions (
+  key TEXT PRIMARY KEY,
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create role_permissions table: which roles may perform which action
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission TEXT NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view permissions"
+  ON public.permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Everyone can view role permissions"
+  ON public.role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('resource.upload', 'Upload new resources'),
+  ('resource.edit_any', 'Edit resources uploaded by anyone'),
+  ('resource.delete_any', 'Delete resources uploaded by anyone'),
+  ('category.manage', 'Create, rename and delete categories'),
+  ('course.create', 'Create courses'),
+  ('class.create', 'Create classes'),
+  ('analytics.view', 'View usage analytics'),
+  ('analytics.view_all', 'View analytics for resources uploaded by anyone'),
+  ('users.manage', 'Manage user accounts, roles and teacher requests');
+
+-- Matches what teachers could do before permissions existed
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('teacher', 'resource.upload'),
+  ('teacher', 'category.manage'),
+  ('teacher', 'course.create'),
+  ('teacher', 'class.create'),
+  ('teacher', 'analytics.view');
+
+-- Admins hold every permission, so they can never lock themselves out
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.user_id = ur.user_id
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id
+      AND rp.permission = _permission
+      AND p.is_active
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS TEXT[]
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+  FROM public.permissions
+  WHERE public.has_permission(auth.uid(), key)
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_role_permission(_role app_role, _permission TEXT, _granted BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change permissions' USING ERRCODE = '42501';
+  END IF;
+
+  IF _role = 'admin' THEN
+    RAISE EXCEPTION 'Admins always hold every permission' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.permissions WHERE key = _permission) THEN
+    RAISE EXCEPTION 'Unknown permission' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _granted THEN
+    INSERT INTO public.role_permissions (role, permission)
+    VALUES (_role, _permission)
+    ON CONFLICT (role, permission) DO NOTHING;
+  ELSE
+    DELETE FROM public.role_permissions
+    WHERE role = _role AND permission = _permission;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN _granted THEN 'permission.granted' ELSE 'permission.revoked' END,
+    'permission',
+    NULL,
+    NULL,
+    jsonb_build_object('role', _role, 'permission', _permission)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_role_permission(app_role, TEXT, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_my_permissions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_role_permission(app_role, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated;
+
+-- Resources
+DROP POLICY "Teachers can create resources" ON public.resources;
+DROP POLICY "Teachers can update own resources" ON public.resources;
+DROP POLICY "Teachers can delete own resources" ON public.resources;
+
+CREATE POLICY "Uploaders can create resources"
+  ON public.resources FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission(auth.uid(), 'resource.upload') AND
+    (
+      class_id IS NULL OR
+      public.is_class_teacher(auth.uid(), class_id) OR
+      public.has_role(auth.uid(), 'admin')
+    ) AND
+    COALESCE(file_size, 0) <= public.max_upload_size(auth.uid())
+  );
+
+CREATE POLICY "Uploaders can update own resources"
+  ON public.resources FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = uploaded_by OR
+    public.has_permission(auth.uid(), 'resource.edit_any')
+  )
+  WITH CHECK (
+    class_id IS NULL OR
+    public.is_class_teacher(auth.uid(), class_id) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Uploaders can delete own resources"
+  ON public.resources FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = uploaded_by OR
+    public.has_permission(auth.uid(), 'resource.delete_any')
+  );
+
+-- Storage objects of the learning-resources bucket
+DROP POLICY "Teachers can upload learning resources" ON storage.objects;
+DROP POLICY "Teachers can update own resources" ON storage.objects;
+DROP POLICY "Teachers can delete own resources" ON storage.objects;
+
+CREATE POLICY "Uploaders can upload learning resources"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'learning-resources' AND
+    public.has_permission(auth.uid(), 'resource.upload')
+  );
+
+CREATE POLICY "Uploaders can update own learning resources"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'learning-resources' AND
+    (
+      (storage.foldername(name))[1] = auth.uid()::TEXT OR
+      public.has_permission(auth.uid(), 'resource.edit_any')
+    )
+  );
+
+CREATE POLICY "Uploaders can delete own learning resources"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'learning-resources' AND
+    (
+      (storage.foldername(name))[1] = auth.uid()::TEXT OR
+      public.has_permission(auth.uid(), 'resource.delete_any')
+    )
+  );
+
+-- Categories, courses and classes
+DROP POLICY "Teachers and admins can manage categories" ON public.categories;
+DROP POLICY "Teachers can create courses" ON public.courses;
+DROP POLICY "Teachers can create classes" ON public.classes;
+
+CREATE POLICY "Category managers can manage categories"
+  ON public.categories FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'category.manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'category.manage'));
+
+CREATE POLICY "Course creators can create courses"
+  ON public.courses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    public.has_permission(auth.uid(), 'course.create')
+  );
+
+CREATE POLICY "Class creators can create classes"
+  ON public.classes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = teacher_id AND
+    public.has_permission(auth.uid(), 'class.create')
+  );
+
+-- Analytics
+DROP POLICY "Teachers and admins can view analytics" ON public.resource_views;
+DROP POLICY "Teachers and admins can view download analytics" ON public.resource_downloads;
+
+CREATE POLICY "Analytics viewers can view analytics"
+  ON public.resource_views FOR SELECT
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'analytics.view'));
+
+CREATE POLICY "Analytics viewers can view download analytics"
+  ON public.resource_downloads FOR SELECT
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'analytics.view'));
+
+-- User management
+DROP POLICY "Admins can view all roles" ON public.user_roles;
+DROP POLICY "Admins can manage roles" ON public.user_roles;
+DROP POLICY "Admins can view all role requests" ON public.role_requests;
+DROP POLICY "Admins can view audit log" ON public.audit_log;
+
+CREATE POLICY "User managers can view all roles"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'users.manage'));
+
+-- Direct writes stay with admins; the admin role itself is guarded below
+CREATE POLICY "Admins can manage roles"
+  ON public.user_roles FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "User managers can view all role requests"
+  ON public.role_requests FOR SELECT
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can view audit log"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'users.manage'));
+
+-- Only admins may hand out or take away the admin role, even when users.manage
+-- has been granted to another role
+CREATE OR REPLACE FUNCTION public.grant_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') OR
+     (_role = 'admin' AND NOT public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'You are not allowed to grant this role' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') OR
+     (_role = 'admin' AND NOT public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'You are not allowed to revoke this role' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.user_roles
+  WHERE user_id = _user_id AND role = _role;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User does not have this role' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') OR
+     (public.has_role(_user_id, 'admin') AND NOT public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'You are not allowed to change this account' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT _active AND public.has_role(_user_id, 'admin') AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.user_id = ur.user_id
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> _user_id
+      AND p.is_active
+  ) THEN
+    RAISE EXCEPTION 'The last admin cannot be deactivated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    is_active = _active,
+    deactivated_at = CASE WHEN _active THEN NULL ELSE now() END
+  WHERE user_id = _user_id AND is_active <> _active;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN _active THEN NULL ELSE 'infinity'::TIMESTAMPTZ END
+  WHERE id = _user_id;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN _active THEN 'user.reactivated' ELSE 'user.deactivated' END,
+    'user',
+    _user_id,
+    _user_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_profile(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') OR
+     (public.has_role(_user_id, 'admin') AND NOT public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'You are not allowed to reset this profile' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = NULL, avatar_url = NULL
+  WHERE user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.log_audit_event('user.profile_reset', 'user', _user_id, _user_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_role_request(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to review role requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.role_requests
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_note = NULLIF(trim(_note), '')
+  WHERE id = _request_id AND status = 'pending'
+  RETURNING * INTO _request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _approve THEN
+    DELETE FROM public.user_roles
+    WHERE user_id = _request.user_id AND role = 'student';
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_request.user_id, _request.requested_role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN _approve THEN 'role_request.approved' ELSE 'role_request.rejected' END,
+    'role_request',
+    _request.id,
+    _request.user_id,
+    jsonb_build_object('role', _request.requested_role, 'note', _request.review_note)
+  );
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Teachers only see usage of their own uploads; analytics.view_all opens up
+-- every resource
+CREATE OR REPLACE FUNCTION public.can_view_resource_analytics(_user_id UUID, _resource_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.has_permission(_user_id, 'analytics.view_all') OR (
+      public.has_permission(_user_id, 'analytics.view') AND
+      EXISTS (
+        SELECT 1
+        FROM public.resources
+        WHERE id = _resource_id
+          AND uploaded_by = _user_id
+      )
+    )
+$$;
+
+DROP POLICY "Analytics viewers can view analytics" ON public.resource_views;
+DROP POLICY "Analytics viewers can view download analytics" ON public.resource_downloads;
+
+CREATE POLICY "Analytics viewers can view analytics of their scope"
+  ON public.resource_views FOR SELECT
+  TO authenticated
+  USING (public.can_view_resource_analytics(auth.uid(), resource_id));
+
+CREATE POLICY "Analytics viewers can view download analytics of their scope"
+  ON public.resource_downloads FOR SELECT
+  TO authenticated
+  USING (public.can_view_resource_analytics(auth.uid(), resource_id));
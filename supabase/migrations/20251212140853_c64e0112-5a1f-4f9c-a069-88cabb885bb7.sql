@@ -0,0 +1,168 @@
+-- Analytics are aggregated here instead of in the browser. Every function takes
+-- the same scope: resources uploaded by _uploaded_by and/or filed under
+-- _category_id, where NULL means any.
+
+-- Resolves a scope to resource ids, refusing scopes the caller may not see
+CREATE OR REPLACE FUNCTION public.analytics_resource_ids(_uploaded_by UUID, _category_id UUID)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'analytics.view') THEN
+    RAISE EXCEPTION 'You are not allowed to view analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF _uploaded_by IS DISTINCT FROM auth.uid() AND NOT public.has_permission(auth.uid(), 'analytics.view_all') THEN
+    RAISE EXCEPTION 'You may only view analytics for your own resources' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id
+  FROM public.resources r
+  WHERE (_uploaded_by IS NULL OR r.uploaded_by = _uploaded_by)
+    AND (_category_id IS NULL OR r.category_id = _category_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_summary(_uploaded_by UUID DEFAULT NULL, _category_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  total_resources BIGINT,
+  total_views BIGINT,
+  total_downloads BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    COALESCE(sum(r.view_count), 0),
+    COALESCE(sum(r.download_count), 0)
+  FROM public.resources r
+  WHERE r.id IN (SELECT public.analytics_resource_ids(_uploaded_by, _category_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.resources_by_category(_uploaded_by UUID DEFAULT NULL, _category_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  category_id UUID,
+  category_name TEXT,
+  resource_count BIGINT,
+  view_count BIGINT,
+  download_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    COALESCE(c.name, 'Uncategorized'),
+    count(*),
+    COALESCE(sum(r.view_count), 0),
+    COALESCE(sum(r.download_count), 0)
+  FROM public.resources r
+  LEFT JOIN public.categories c ON c.id = r.category_id
+  WHERE r.id IN (SELECT public.analytics_resource_ids(_uploaded_by, _category_id))
+  GROUP BY c.id, c.name
+  ORDER BY count(*) DESC, COALESCE(c.name, 'Uncategorized')
+$$;
+
+-- View and download counts per bucket in [_start, _end), including empty buckets
+CREATE OR REPLACE FUNCTION public.views_by_day(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _bucket TEXT DEFAULT 'day',
+  _uploaded_by UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMP WITH TIME ZONE,
+  views BIGINT,
+  downloads BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Bucket must be day, week or month' USING ERRCODE = '22023';
+  END IF;
+
+  IF _end <= _start THEN
+    RAISE EXCEPTION 'The range must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT public.analytics_resource_ids(_uploaded_by, _category_id) AS id
+  ),
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(_bucket, _start),
+      _end - INTERVAL '1 microsecond',
+      ('1 ' || _bucket)::INTERVAL
+    ) AS bucket_start
+  ),
+  view_counts AS (
+    SELECT date_trunc(_bucket, v.viewed_at) AS bucket_start, count(*) AS total
+    FROM public.resource_views v
+    WHERE v.resource_id IN (SELECT id FROM scoped)
+      AND v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY 1
+  ),
+  download_counts AS (
+    SELECT date_trunc(_bucket, d.downloaded_at) AS bucket_start, count(*) AS total
+    FROM public.resource_downloads d
+    WHERE d.resource_id IN (SELECT id FROM scoped)
+      AND d.downloaded_at >= _start
+      AND d.downloaded_at < _end
+    GROUP BY 1
+  )
+  SELECT b.bucket_start, COALESCE(vc.total, 0), COALESCE(dc.total, 0)
+  FROM buckets b
+  LEFT JOIN view_counts vc ON vc.bucket_start = b.bucket_start
+  LEFT JOIN download_counts dc ON dc.bucket_start = b.bucket_start
+  ORDER BY b.bucket_start;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.top_resources(
+  _limit INTEGER DEFAULT 5,
+  _uploaded_by UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  view_count INTEGER,
+  download_count INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.title, r.view_count, r.download_count
+  FROM public.resources r
+  WHERE r.id IN (SELECT public.analytics_resource_ids(_uploaded_by, _category_id))
+  ORDER BY r.view_count DESC, r.download_count DESC, r.title
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_resource_ids(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_summary(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resources_by_category(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.top_resources(INTEGER, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.analytics_summary(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resources_by_category(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.top_resources(INTEGER, UUID, UUID) TO authenticated;
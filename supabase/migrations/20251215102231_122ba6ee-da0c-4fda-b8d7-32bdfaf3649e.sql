@@ -0,0 +1,77 @@
+-- Trends are bucketed in the viewer's time zone, so a day runs from local
+-- midnight to local midnight. Buckets are built as local timestamps and
+-- converted back, which keeps DST days at 23 or 25 hours.
+DROP FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.views_by_day(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _bucket TEXT DEFAULT 'day',
+  _uploaded_by UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMP WITH TIME ZONE,
+  views BIGINT,
+  downloads BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Bucket must be day, week or month' USING ERRCODE = '22023';
+  END IF;
+
+  IF _end <= _start THEN
+    RAISE EXCEPTION 'The range must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  IF _end - _start > INTERVAL '2 years' THEN
+    RAISE EXCEPTION 'The range may span at most two years' USING ERRCODE = '54000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT public.analytics_resource_ids(_uploaded_by, _category_id) AS id
+  ),
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(_bucket, _start AT TIME ZONE _time_zone),
+      (_end AT TIME ZONE _time_zone) - INTERVAL '1 microsecond',
+      ('1 ' || _bucket)::INTERVAL
+    ) AS local_start
+  ),
+  view_counts AS (
+    SELECT date_trunc(_bucket, v.viewed_at AT TIME ZONE _time_zone) AS local_start, count(*) AS total
+    FROM public.resource_views v
+    WHERE v.resource_id IN (SELECT id FROM scoped)
+      AND v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY 1
+  ),
+  download_counts AS (
+    SELECT date_trunc(_bucket, d.downloaded_at AT TIME ZONE _time_zone) AS local_start, count(*) AS total
+    FROM public.resource_downloads d
+    WHERE d.resource_id IN (SELECT id FROM scoped)
+      AND d.downloaded_at >= _start
+      AND d.downloaded_at < _end
+    GROUP BY 1
+  )
+  SELECT b.local_start AT TIME ZONE _time_zone, COALESCE(vc.total, 0), COALESCE(dc.total, 0)
+  FROM buckets b
+  LEFT JOIN view_counts vc ON vc.local_start = b.local_start
+  LEFT JOIN download_counts dc ON dc.local_start = b.local_start
+  ORDER BY b.local_start;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,244 @@
+-- The analytics scope can narrow down to a single resource, which anyone who
+-- may see that resource's analytics can request
+DROP FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID, TEXT);
+DROP FUNCTION public.analytics_resource_ids(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.analytics_resource_ids(
+  _uploaded_by UUID,
+  _category_id UUID,
+  _resource_id UUID DEFAULT NULL
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'analytics.view') THEN
+    RAISE EXCEPTION 'You are not allowed to view analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF _uploaded_by IS DISTINCT FROM auth.uid() AND
+     NOT public.has_permission(auth.uid(), 'analytics.view_all') AND
+     NOT (_resource_id IS NOT NULL AND public.can_view_resource_analytics(auth.uid(), _resource_id)) THEN
+    RAISE EXCEPTION 'You may only view analytics for your own resources' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id
+  FROM public.resources r
+  WHERE (_uploaded_by IS NULL OR r.uploaded_by = _uploaded_by)
+    AND (_category_id IS NULL OR r.category_id = _category_id)
+    AND (_resource_id IS NULL OR r.id = _resource_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.views_by_day(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _bucket TEXT DEFAULT 'day',
+  _uploaded_by UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _time_zone TEXT DEFAULT 'UTC',
+  _resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMP WITH TIME ZONE,
+  views BIGINT,
+  downloads BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Bucket must be day, week or month' USING ERRCODE = '22023';
+  END IF;
+
+  IF _end <= _start THEN
+    RAISE EXCEPTION 'The range must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  IF _end - _start > INTERVAL '2 years' THEN
+    RAISE EXCEPTION 'The range may span at most two years' USING ERRCODE = '54000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT public.analytics_resource_ids(_uploaded_by, _category_id, _resource_id) AS id
+  ),
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(_bucket, _start AT TIME ZONE _time_zone),
+      (_end AT TIME ZONE _time_zone) - INTERVAL '1 microsecond',
+      ('1 ' || _bucket)::INTERVAL
+    ) AS local_start
+  ),
+  view_counts AS (
+    SELECT date_trunc(_bucket, v.viewed_at AT TIME ZONE _time_zone) AS local_start, count(*) AS total
+    FROM public.resource_views v
+    WHERE v.resource_id IN (SELECT id FROM scoped)
+      AND v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY 1
+  ),
+  download_counts AS (
+    SELECT date_trunc(_bucket, d.downloaded_at AT TIME ZONE _time_zone) AS local_start, count(*) AS total
+    FROM public.resource_downloads d
+    WHERE d.resource_id IN (SELECT id FROM scoped)
+      AND d.downloaded_at >= _start
+      AND d.downloaded_at < _end
+    GROUP BY 1
+  )
+  SELECT b.local_start AT TIME ZONE _time_zone, COALESCE(vc.total, 0), COALESCE(dc.total, 0)
+  FROM buckets b
+  LEFT JOIN view_counts vc ON vc.local_start = b.local_start
+  LEFT JOIN download_counts dc ON dc.local_start = b.local_start
+  ORDER BY b.local_start;
+END;
+$$;
+
+-- Totals of one resource within [_start, _end). Repeat viewers opened it more
+-- than once.
+CREATE OR REPLACE FUNCTION public.resource_analytics_summary(
+  _resource_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  views BIGINT,
+  downloads BIGINT,
+  unique_viewers BIGINT,
+  repeat_viewers BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_view_resource_analytics(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'You are not allowed to view analytics for this resource' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH viewers AS (
+    SELECT v.user_id, count(*) AS total
+    FROM public.resource_views v
+    WHERE v.resource_id = _resource_id
+      AND v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY v.user_id
+  )
+  SELECT
+    (SELECT COALESCE(sum(total), 0)::BIGINT FROM viewers),
+    (
+      SELECT count(*)
+      FROM public.resource_downloads d
+      WHERE d.resource_id = _resource_id
+        AND d.downloaded_at >= _start
+        AND d.downloaded_at < _end
+    ),
+    (SELECT count(*) FROM viewers WHERE user_id IS NOT NULL),
+    (SELECT count(*) FROM viewers WHERE user_id IS NOT NULL AND total > 1);
+END;
+$$;
+
+-- Views of one resource per local weekday (0 = Sunday) and hour
+CREATE OR REPLACE FUNCTION public.resource_traffic_by_hour(
+  _resource_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day_of_week INTEGER,
+  hour INTEGER,
+  views BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_view_resource_analytics(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'You are not allowed to view analytics for this resource' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    EXTRACT(DOW FROM v.viewed_at AT TIME ZONE _time_zone)::INTEGER,
+    EXTRACT(HOUR FROM v.viewed_at AT TIME ZONE _time_zone)::INTEGER,
+    count(*)
+  FROM public.resource_views v
+  WHERE v.resource_id = _resource_id
+    AND v.viewed_at >= _start
+    AND v.viewed_at < _end
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+-- Who opened a resource. Names are personal data, so only the uploader and
+-- admins get this list, not everyone with analytics.view_all.
+CREATE OR REPLACE FUNCTION public.resource_viewers(
+  _resource_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  view_count BIGINT,
+  first_viewed_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.resources r
+    WHERE r.id = _resource_id
+      AND (r.uploaded_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Only the uploader can see who opened this resource' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT v.user_id, p.full_name, count(*), min(v.viewed_at), max(v.viewed_at)
+  FROM public.resource_views v
+  LEFT JOIN public.profiles p ON p.user_id = v.user_id
+  WHERE v.resource_id = _resource_id
+    AND v.user_id IS NOT NULL
+    AND v.viewed_at >= _start
+    AND v.viewed_at < _end
+  GROUP BY v.user_id, p.full_name
+  ORDER BY max(v.viewed_at) DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_resource_ids(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID, TEXT, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resource_analytics_summary(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resource_traffic_by_hour(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resource_viewers(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.views_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resource_analytics_summary(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resource_traffic_by_hour(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resource_viewers(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,149 @@
+-- Per-resource and per-user figures for spreadsheet exports. Both take the
+-- usual analytics scope plus a [_start, _end) range.
+CREATE OR REPLACE FUNCTION public.resource_metrics(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _uploaded_by UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  file_type TEXT,
+  category_name TEXT,
+  uploader_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  views BIGINT,
+  downloads BIGINT,
+  unique_viewers BIGINT,
+  total_views INTEGER,
+  total_downloads INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _end <= _start THEN
+    RAISE EXCEPTION 'The range must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH view_counts AS (
+    SELECT v.resource_id, count(*) AS total, count(DISTINCT v.user_id) AS viewers
+    FROM public.resource_views v
+    WHERE v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY v.resource_id
+  ),
+  download_counts AS (
+    SELECT d.resource_id, count(*) AS total
+    FROM public.resource_downloads d
+    WHERE d.downloaded_at >= _start
+      AND d.downloaded_at < _end
+    GROUP BY d.resource_id
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.file_type,
+    COALESCE(c.name, 'Uncategorized'),
+    p.full_name,
+    r.created_at,
+    COALESCE(vc.total, 0),
+    COALESCE(dc.total, 0),
+    COALESCE(vc.viewers, 0),
+    r.view_count,
+    r.download_count
+  FROM public.resources r
+  LEFT JOIN public.categories c ON c.id = r.category_id
+  LEFT JOIN public.profiles p ON p.user_id = r.uploaded_by
+  LEFT JOIN view_counts vc ON vc.resource_id = r.id
+  LEFT JOIN download_counts dc ON dc.resource_id = r.id
+  WHERE r.id IN (SELECT public.analytics_resource_ids(_uploaded_by, _category_id))
+  ORDER BY COALESCE(vc.total, 0) DESC, COALESCE(dc.total, 0) DESC, r.title;
+END;
+$$;
+
+-- What each user viewed and downloaded within the scope. Like
+-- resource_viewers this names people, so callers get their own uploads only
+-- unless they are an admin. The unscoped admin export lists every profile,
+-- inactive ones included.
+CREATE OR REPLACE FUNCTION public.user_activity(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _uploaded_by UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  roles TEXT,
+  views BIGINT,
+  downloads BIGINT,
+  resources_viewed BIGINT,
+  last_active_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _uploaded_by IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export activity beyond their own resources' USING ERRCODE = '42501';
+  END IF;
+
+  IF _end <= _start THEN
+    RAISE EXCEPTION 'The range must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT public.analytics_resource_ids(_uploaded_by, _category_id) AS id
+  ),
+  view_counts AS (
+    SELECT v.user_id, count(*) AS total, count(DISTINCT v.resource_id) AS resources, max(v.viewed_at) AS last_at
+    FROM public.resource_views v
+    WHERE v.resource_id IN (SELECT id FROM scoped)
+      AND v.user_id IS NOT NULL
+      AND v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY v.user_id
+  ),
+  download_counts AS (
+    SELECT d.user_id, count(*) AS total, max(d.downloaded_at) AS last_at
+    FROM public.resource_downloads d
+    WHERE d.resource_id IN (SELECT id FROM scoped)
+      AND d.user_id IS NOT NULL
+      AND d.downloaded_at >= _start
+      AND d.downloaded_at < _end
+    GROUP BY d.user_id
+  )
+  SELECT
+    p.user_id,
+    p.full_name,
+    (
+      SELECT string_agg(ur.role::TEXT, ', ' ORDER BY ur.role)
+      FROM public.user_roles ur
+      WHERE ur.user_id = p.user_id
+    ),
+    COALESCE(vc.total, 0),
+    COALESCE(dc.total, 0),
+    COALESCE(vc.resources, 0),
+    GREATEST(vc.last_at, dc.last_at)
+  FROM public.profiles p
+  LEFT JOIN view_counts vc ON vc.user_id = p.user_id
+  LEFT JOIN download_counts dc ON dc.user_id = p.user_id
+  WHERE (_uploaded_by IS NULL AND _category_id IS NULL)
+     OR vc.user_id IS NOT NULL
+     OR dc.user_id IS NOT NULL
+  ORDER BY COALESCE(vc.total, 0) + COALESCE(dc.total, 0) DESC, p.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resource_metrics(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.user_activity(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resource_metrics(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.user_activity(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID) TO authenticated;
@@ -0,0 +1,75 @@
+-- Weekly analytics digest emailed to uploaders by the analytics-digest edge
+-- function. Everyone who may view analytics gets it unless they opt out.
+ALTER TABLE public.profiles
+  ADD COLUMN analytics_digest_enabled BOOLEAN DEFAULT true NOT NULL,
+  ADD COLUMN analytics_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+GRANT UPDATE (analytics_digest_enabled) ON public.profiles TO authenticated;
+
+-- One row per resource of every digest recipient, with its figures for
+-- [_start, _end). Recipients who already got a digest within the last day
+-- are skipped, so a retried run does not send twice.
+CREATE OR REPLACE FUNCTION public.analytics_digest_entries(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  full_name TEXT,
+  resource_id UUID,
+  title TEXT,
+  views BIGINT,
+  downloads BIGINT,
+  total_views INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _end <= _start THEN
+    RAISE EXCEPTION 'The range must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH view_counts AS (
+    SELECT v.resource_id, count(*) AS total
+    FROM public.resource_views v
+    WHERE v.viewed_at >= _start
+      AND v.viewed_at < _end
+    GROUP BY v.resource_id
+  ),
+  download_counts AS (
+    SELECT d.resource_id, count(*) AS total
+    FROM public.resource_downloads d
+    WHERE d.downloaded_at >= _start
+      AND d.downloaded_at < _end
+    GROUP BY d.resource_id
+  )
+  SELECT
+    p.user_id,
+    u.email::TEXT,
+    p.full_name,
+    r.id,
+    r.title,
+    COALESCE(vc.total, 0),
+    COALESCE(dc.total, 0),
+    r.view_count
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.user_id
+  JOIN public.resources r ON r.uploaded_by = p.user_id
+  LEFT JOIN view_counts vc ON vc.resource_id = r.id
+  LEFT JOIN download_counts dc ON dc.resource_id = r.id
+  WHERE p.is_active
+    AND p.analytics_digest_enabled
+    AND (p.analytics_digest_sent_at IS NULL OR p.analytics_digest_sent_at < _end - INTERVAL '1 day')
+    AND u.email IS NOT NULL
+    AND public.has_permission(p.user_id, 'analytics.view')
+  ORDER BY p.user_id, COALESCE(vc.total, 0) DESC, COALESCE(dc.total, 0) DESC, r.title;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_digest_entries(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_digest_entries(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO service_role;
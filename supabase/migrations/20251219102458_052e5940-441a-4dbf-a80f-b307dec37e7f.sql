@@ -0,0 +1,115 @@
+-- How far each user got through each video. The position is where they last
+-- were, for resuming; the percentage is the furthest point they reached and
+-- never goes down.
+CREATE TABLE public.resource_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE NOT NULL,
+  position_seconds NUMERIC DEFAULT 0 NOT NULL CHECK (position_seconds >= 0),
+  duration_seconds NUMERIC CHECK (duration_seconds > 0),
+  percent_watched NUMERIC(5, 2) DEFAULT 0 NOT NULL CHECK (percent_watched BETWEEN 0 AND 100),
+  completed BOOLEAN DEFAULT false NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, resource_id)
+);
+
+CREATE INDEX idx_resource_progress_resource ON public.resource_progress(resource_id);
+
+ALTER TABLE public.resource_progress ENABLE ROW LEVEL SECURITY;
+
+-- Written only through save_resource_progress
+CREATE POLICY "Users can view own progress"
+  ON public.resource_progress FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_resource_progress_updated_at
+  BEFORE UPDATE ON public.resource_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A video counts as completed once 90% of it has been reached, so skipping
+-- the credits still completes it
+CREATE OR REPLACE FUNCTION public.save_resource_progress(
+  _resource_id UUID,
+  _position_seconds NUMERIC,
+  _duration_seconds NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _percent NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.can_view_resource(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.resources WHERE id = _resource_id AND file_type = 'video') THEN
+    RAISE EXCEPTION 'Progress is only tracked for videos' USING ERRCODE = '22023';
+  END IF;
+
+  IF _duration_seconds IS NULL OR _duration_seconds <= 0 OR
+     _position_seconds IS NULL OR _position_seconds < 0 OR _position_seconds > _duration_seconds THEN
+    RAISE EXCEPTION 'The position must lie within the video' USING ERRCODE = '22023';
+  END IF;
+
+  _percent := round(_position_seconds / _duration_seconds * 100, 2);
+
+  INSERT INTO public.resource_progress AS p (
+    user_id, resource_id, position_seconds, duration_seconds, percent_watched, completed, completed_at
+  )
+  VALUES (
+    auth.uid(), _resource_id, _position_seconds, _duration_seconds, _percent, _percent >= 90,
+    CASE WHEN _percent >= 90 THEN now() END
+  )
+  ON CONFLICT (user_id, resource_id) DO UPDATE
+  SET position_seconds = EXCLUDED.position_seconds,
+      duration_seconds = EXCLUDED.duration_seconds,
+      percent_watched = GREATEST(p.percent_watched, EXCLUDED.percent_watched),
+      completed = p.completed OR EXCLUDED.completed,
+      completed_at = COALESCE(p.completed_at, EXCLUDED.completed_at);
+END;
+$$;
+
+-- Completion per video in the usual analytics scope. Videos nobody started
+-- are listed with zero viewers.
+CREATE OR REPLACE FUNCTION public.video_completion(_uploaded_by UUID DEFAULT NULL, _category_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  viewers BIGINT,
+  completed BIGINT,
+  average_percent NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.title,
+    count(p.id),
+    count(p.id) FILTER (WHERE p.completed),
+    COALESCE(round(avg(p.percent_watched), 1), 0)
+  FROM public.resources r
+  LEFT JOIN public.resource_progress p ON p.resource_id = r.id
+  WHERE r.file_type = 'video'
+    AND r.id IN (SELECT public.analytics_resource_ids(_uploaded_by, _category_id))
+  GROUP BY r.id, r.title
+  ORDER BY count(p.id) DESC, r.title
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_resource_progress(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.video_completion(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_resource_progress(UUID, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.video_completion(UUID, UUID) TO authenticated;
@@ -0,0 +1,359 @@
+-- Replacing a resource's file keeps its id, counters and links. The file it
+-- replaces is kept here so it can be viewed, downloaded or restored later.
+ALTER TABLE public.resources
+  ADD COLUMN current_version INTEGER DEFAULT 1 NOT NULL,
+  ADD COLUMN file_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.resource_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE NOT NULL,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  file_path TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size BIGINT,
+  -- When this file became the resource's file, and when it stopped being it
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  replaced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  replaced_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (resource_id, version_number)
+);
+
+ALTER TABLE public.resource_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.can_edit_resource(_user_id UUID, _resource_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.resources
+    WHERE id = _resource_id
+      AND (uploaded_by = _user_id OR public.has_permission(_user_id, 'resource.edit_any'))
+  )
+$$;
+
+-- Written only through replace_resource_file and restore_resource_version.
+-- Students only ever see the current file.
+CREATE POLICY "Editors can view resource versions"
+  ON public.resource_versions FOR SELECT
+  TO authenticated
+  USING (public.can_edit_resource(auth.uid(), resource_id));
+
+-- Old files are readable by whoever can edit their resource
+CREATE OR REPLACE FUNCTION public.can_view_resource_object(_user_id UUID, _object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (storage.foldername(_object_name))[1] = _user_id::TEXT OR
+    public.has_role(_user_id, 'admin') OR
+    EXISTS (
+      SELECT 1
+      FROM public.resources
+      WHERE file_path = _object_name
+        AND public.can_view_resource(_user_id, id)
+    ) OR
+    EXISTS (
+      SELECT 1
+      FROM public.resource_versions
+      WHERE file_path = _object_name
+        AND public.can_edit_resource(_user_id, resource_id)
+    )
+$$;
+
+-- Deleting a resource cascades to its versions, whose files are queued too
+CREATE OR REPLACE FUNCTION public.queue_resource_version_file_cleanup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A restored version's file is the resource's file again
+  IF NOT EXISTS (SELECT 1 FROM public.resources WHERE file_path = OLD.file_path) THEN
+    INSERT INTO public.storage_cleanup_queue (bucket_id, object_name)
+    VALUES ('learning-resources', OLD.file_path)
+    ON CONFLICT (bucket_id, object_name) DO NOTHING;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER queue_resource_version_file_cleanup
+  AFTER DELETE ON public.resource_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_resource_version_file_cleanup();
+
+CREATE OR REPLACE FUNCTION public.find_orphaned_storage_objects(_older_than INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS TABLE (
+  object_name TEXT,
+  size BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  queued BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    (o.metadata->>'size')::BIGINT,
+    o.created_at,
+    q.id IS NOT NULL
+  FROM storage.objects o
+  LEFT JOIN public.storage_cleanup_queue q
+    ON q.bucket_id = o.bucket_id AND q.object_name = o.name
+  WHERE o.bucket_id = 'learning-resources'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.resources r WHERE r.file_path = o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.resource_versions v WHERE v.file_path = o.name
+    )
+    AND (q.id IS NOT NULL OR o.created_at < now() - _older_than)
+  ORDER BY o.created_at
+$$;
+
+-- Swaps in a newly uploaded file and keeps the old one as a version.
+-- Returns the new version number.
+CREATE OR REPLACE FUNCTION public.replace_resource_file(
+  _resource_id UUID,
+  _file_path TEXT,
+  _file_type TEXT,
+  _file_size BIGINT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _resource public.resources%ROWTYPE;
+  _version INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _resource FROM public.resources WHERE id = _resource_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_edit_resource(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'You cannot edit this resource' USING ERRCODE = '42501';
+  END IF;
+
+  -- Same rule as uploads: only files in the caller's own folder
+  IF _file_path IS NULL OR (storage.foldername(_file_path))[1] IS DISTINCT FROM auth.uid()::TEXT THEN
+    RAISE EXCEPTION 'The new file must be one you uploaded' USING ERRCODE = '42501';
+  END IF;
+
+  IF _file_path = _resource.file_path OR
+     EXISTS (SELECT 1 FROM public.resource_versions WHERE file_path = _file_path) THEN
+    RAISE EXCEPTION 'This file is already in use' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(_file_size, 0) > public.max_upload_size(auth.uid()) THEN
+    RAISE EXCEPTION 'The file exceeds your upload limit' USING ERRCODE = '54000';
+  END IF;
+
+  INSERT INTO public.resource_versions (
+    resource_id, version_number, file_path, file_type, file_size, uploaded_at, replaced_by
+  )
+  VALUES (
+    _resource.id, _resource.current_version, _resource.file_path, _resource.file_type, _resource.file_size,
+    COALESCE(_resource.file_updated_at, _resource.created_at), auth.uid()
+  );
+
+  SELECT GREATEST(_resource.current_version, max(version_number)) + 1 INTO _version
+  FROM public.resource_versions
+  WHERE resource_id = _resource.id;
+
+  UPDATE public.resources
+  SET file_path = _file_path,
+      file_type = _file_type,
+      file_size = _file_size,
+      current_version = _version,
+      file_updated_at = now()
+  WHERE id = _resource.id;
+
+  PERFORM public.log_audit_event(
+    'resource.file_replaced',
+    'resource',
+    _resource.id,
+    _resource.uploaded_by,
+    jsonb_build_object('version', _version, 'previous_version', _resource.current_version)
+  );
+
+  RETURN _version;
+END;
+$$;
+
+-- Makes an old version the resource's file again. The file it takes over
+-- from becomes a version in turn, so nothing is lost.
+CREATE OR REPLACE FUNCTION public.restore_resource_version(_version_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _restored public.resource_versions%ROWTYPE;
+  _resource public.resources%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _restored FROM public.resource_versions WHERE id = _version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_edit_resource(auth.uid(), _restored.resource_id) THEN
+    RAISE EXCEPTION 'You cannot edit this resource' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _resource FROM public.resources WHERE id = _restored.resource_id FOR UPDATE;
+
+  INSERT INTO public.resource_versions (
+    resource_id, version_number, file_path, file_type, file_size, uploaded_at, replaced_by
+  )
+  VALUES (
+    _resource.id, _resource.current_version, _resource.file_path, _resource.file_type, _resource.file_size,
+    COALESCE(_resource.file_updated_at, _resource.created_at), auth.uid()
+  );
+
+  UPDATE public.resources
+  SET file_path = _restored.file_path,
+      file_type = _restored.file_type,
+      file_size = _restored.file_size,
+      current_version = _restored.version_number,
+      file_updated_at = now()
+  WHERE id = _resource.id;
+
+  DELETE FROM public.resource_versions WHERE id = _restored.id;
+
+  PERFORM public.log_audit_event(
+    'resource.version_restored',
+    'resource',
+    _resource.id,
+    _resource.uploaded_by,
+    jsonb_build_object('version', _restored.version_number, 'previous_version', _resource.current_version)
+  );
+
+  RETURN _restored.version_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_edit_resource(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.replace_resource_file(UUID, TEXT, TEXT, BIGINT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.restore_resource_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_edit_resource(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_resource_file(UUID, TEXT, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_resource_version(UUID) TO authenticated;
+
+-- search_resources also returns when the file was last replaced
+DROP FUNCTION public.search_resources(TEXT, UUID, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _file_type TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 12,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  file_path TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  view_count INTEGER,
+  download_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  file_updated_at TIMESTAMP WITH TIME ZONE,
+  category_id UUID,
+  category_name TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, q.tsq) END AS search_rank
+    FROM public.resources r, q
+    WHERE (q.tsq IS NULL OR r.search_vector @@ q.tsq)
+      AND (_category_id IS NULL OR r.category_id = _category_id)
+      AND (_file_type IS NULL OR r.file_type = _file_type)
+  ),
+  page AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE _sort WHEN 'views' THEN m.view_count WHEN 'downloads' THEN m.download_count END DESC NULLS LAST,
+          CASE WHEN _sort = 'relevance' THEN m.search_rank END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id DESC
+      ) AS position
+    FROM matches m
+    ORDER BY position
+    LIMIT greatest(_limit, 1)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.file_path,
+    p.file_type,
+    p.file_size,
+    p.view_count,
+    p.download_count,
+    p.created_at,
+    p.file_updated_at,
+    p.category_id,
+    c.name AS category_name,
+    pr.full_name AS uploader_name,
+    p.search_rank::REAL AS rank,
+    CASE
+      WHEN q.tsq IS NULL THEN p.title
+      ELSE ts_headline('english', p.title, q.tsq,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"')
+    END AS title_highlight,
+    CASE
+      WHEN q.tsq IS NULL OR p.description IS NULL THEN p.description
+      ELSE ts_headline('english', p.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, StartSel="<mark>", StopSel="</mark>"')
+    END AS description_snippet,
+    p.total_count
+  FROM page p
+  CROSS JOIN q
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.uploaded_by
+  ORDER BY p.position
+$$;
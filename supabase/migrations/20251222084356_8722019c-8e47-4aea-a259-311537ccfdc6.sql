@@ -0,0 +1,57 @@
+-- Moving a resource to another class is an edit too
+DROP TRIGGER update_resources_updated_at ON public.resources;
+
+CREATE TRIGGER update_resources_updated_at
+  BEFORE UPDATE OF title, description, category_id, class_id, file_path, file_type, file_size
+  ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every metadata edit is recorded with the values it replaced, whichever path
+-- made it. File replacements are logged by replace_resource_file.
+CREATE OR REPLACE FUNCTION public.audit_resource_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous JSONB := '{}'::jsonb;
+BEGIN
+  IF OLD.title IS DISTINCT FROM NEW.title THEN
+    _previous := _previous || jsonb_build_object('title', OLD.title);
+  END IF;
+  IF OLD.description IS DISTINCT FROM NEW.description THEN
+    _previous := _previous || jsonb_build_object('description', OLD.description);
+  END IF;
+  IF OLD.category_id IS DISTINCT FROM NEW.category_id THEN
+    _previous := _previous || jsonb_build_object('category_id', OLD.category_id);
+  END IF;
+  IF OLD.class_id IS DISTINCT FROM NEW.class_id THEN
+    _previous := _previous || jsonb_build_object('class_id', OLD.class_id);
+  END IF;
+
+  IF _previous = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    'resource.updated',
+    'resource',
+    NEW.id,
+    NEW.uploaded_by,
+    jsonb_build_object(
+      'title', NEW.title,
+      'fields', (SELECT jsonb_agg(key ORDER BY key) FROM jsonb_object_keys(_previous) AS key),
+      'previous', _previous
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_resource_update
+  AFTER UPDATE OF title, description, category_id, class_id ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_resource_update();
@@ -0,0 +1,220 @@
+-- Categories nest, e.g. subject -> topic. Filtering by a category includes
+-- everything filed under its subcategories.
+ALTER TABLE public.categories
+  ADD COLUMN parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  ADD CONSTRAINT categories_parent_not_self CHECK (parent_id <> id);
+
+CREATE INDEX idx_categories_parent ON public.categories(parent_id);
+
+-- The category itself and every category below it
+CREATE OR REPLACE FUNCTION public.category_subtree(_category_id UUID)
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.categories WHERE id = _category_id
+    UNION
+    SELECT c.id FROM public.categories c JOIN subtree s ON c.parent_id = s.id
+  )
+  SELECT id FROM subtree
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NEW.parent_id IN (SELECT public.category_subtree(NEW.id)) THEN
+    RAISE EXCEPTION 'A category cannot be moved inside itself' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_parent();
+
+-- Subcategories of a deleted category move up a level instead of becoming
+-- top-level categories
+CREATE OR REPLACE FUNCTION public.reparent_category_children()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.categories SET parent_id = OLD.parent_id WHERE parent_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER reparent_category_children
+  BEFORE DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reparent_category_children();
+
+-- Resources filed under each category, counted across every resource rather
+-- than the ones the caller can see
+CREATE OR REPLACE FUNCTION public.category_resource_counts()
+RETURNS TABLE (
+  category_id UUID,
+  resource_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'category.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage categories' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.category_id, count(*)
+  FROM public.resources r
+  WHERE r.category_id IS NOT NULL
+  GROUP BY r.category_id;
+END;
+$$;
+
+-- Moves the source's resources and subcategories into the target, then
+-- deletes the source. Returns how many resources were moved.
+CREATE OR REPLACE FUNCTION public.merge_categories(_source_id UUID, _target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _moved INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'category.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage categories' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.categories WHERE id = _source_id) OR
+     NOT EXISTS (SELECT 1 FROM public.categories WHERE id = _target_id) THEN
+    RAISE EXCEPTION 'Category not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _target_id IN (SELECT public.category_subtree(_source_id)) THEN
+    RAISE EXCEPTION 'A category cannot be merged into itself or one of its subcategories' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.resources SET category_id = _target_id WHERE category_id = _source_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.categories SET parent_id = _target_id WHERE parent_id = _source_id;
+  DELETE FROM public.categories WHERE id = _source_id;
+
+  RETURN _moved;
+END;
+$$;
+
+UPDATE public.permissions
+SET description = 'Create, rename, nest, merge and delete categories'
+WHERE key = 'category.manage';
+
+REVOKE EXECUTE ON FUNCTION public.category_resource_counts() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.merge_categories(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.category_resource_counts() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_categories(UUID, UUID) TO authenticated;
+
+-- search_resources matches resources in subcategories of the chosen category
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _file_type TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 12,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  file_path TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  view_count INTEGER,
+  download_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  file_updated_at TIMESTAMP WITH TIME ZONE,
+  category_id UUID,
+  category_name TEXT,
+  uploader_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  description_snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, q.tsq) END AS search_rank
+    FROM public.resources r, q
+    WHERE (q.tsq IS NULL OR r.search_vector @@ q.tsq)
+      AND (_category_id IS NULL OR r.category_id IN (SELECT public.category_subtree(_category_id)))
+      AND (_file_type IS NULL OR r.file_type = _file_type)
+  ),
+  page AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE _sort WHEN 'views' THEN m.view_count WHEN 'downloads' THEN m.download_count END DESC NULLS LAST,
+          CASE WHEN _sort = 'relevance' THEN m.search_rank END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id DESC
+      ) AS position
+    FROM matches m
+    ORDER BY position
+    LIMIT greatest(_limit, 1)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.file_path,
+    p.file_type,
+    p.file_size,
+    p.view_count,
+    p.download_count,
+    p.created_at,
+    p.file_updated_at,
+    p.category_id,
+    c.name AS category_name,
+    pr.full_name AS uploader_name,
+    p.search_rank::REAL AS rank,
+    CASE
+      WHEN q.tsq IS NULL THEN p.title
+      ELSE ts_headline('english', p.title, q.tsq,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"')
+    END AS title_highlight,
+    CASE
+      WHEN q.tsq IS NULL OR p.description IS NULL THEN p.description
+      ELSE ts_headline('english', p.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, StartSel="<mark>", StopSel="</mark>"')
+    END AS description_snippet,
+    p.total_count
+  FROM page p
+  CROSS JOIN q
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.uploaded_by
+  ORDER BY p.position
+$$;
@@ -0,0 +1,2 @@
+-- Index names follow <table>_<column>_idx
+ALTER INDEX public.idx_resource_progress_resource RENAME TO resource_progress_resource_id_idx;
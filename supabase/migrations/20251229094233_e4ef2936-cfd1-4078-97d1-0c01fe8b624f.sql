@@ -0,0 +1,90 @@
+-- The percentage watched counts the parts of a video that were actually
+-- played, so seeking to the end no longer completes it. Each report carries
+-- the ranges played since the page loaded; they are merged into what the user
+-- played before, and replaying a part counts it once. Progress saved before
+-- this is recounted from the played ranges on the user's next report.
+ALTER TABLE public.resource_progress
+  ADD COLUMN watched_ranges NUMMULTIRANGE DEFAULT '{}' NOT NULL;
+
+DROP FUNCTION public.save_resource_progress(UUID, NUMERIC, NUMERIC);
+
+-- _watched_ranges is a JSON array of [start, end] pairs in seconds. A video
+-- counts as completed once 90% of it has been played, so skipping the credits
+-- still completes it.
+CREATE OR REPLACE FUNCTION public.save_resource_progress(
+  _resource_id UUID,
+  _position_seconds NUMERIC,
+  _duration_seconds NUMERIC,
+  _watched_ranges JSONB DEFAULT '[]'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _played NUMMULTIRANGE;
+  _percent NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.can_view_resource(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.resources WHERE id = _resource_id AND file_type = 'video') THEN
+    RAISE EXCEPTION 'Progress is only tracked for videos' USING ERRCODE = '22023';
+  END IF;
+
+  IF _duration_seconds IS NULL OR _duration_seconds <= 0 OR
+     _position_seconds IS NULL OR _position_seconds < 0 OR _position_seconds > _duration_seconds THEN
+    RAISE EXCEPTION 'The position must lie within the video' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_watched_ranges) IS DISTINCT FROM 'array' OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_watched_ranges) r
+    WHERE jsonb_typeof(r) <> 'array' OR jsonb_array_length(r) <> 2 OR
+          jsonb_typeof(r -> 0) <> 'number' OR jsonb_typeof(r -> 1) <> 'number'
+  ) THEN
+    RAISE EXCEPTION 'Watched ranges must be [start, end] pairs of seconds' USING ERRCODE = '22023';
+  END IF;
+
+  -- Clipped to the video; empty and reversed ranges add nothing
+  SELECT COALESCE(range_agg(numrange(
+    GREATEST((r ->> 0)::NUMERIC, 0),
+    LEAST((r ->> 1)::NUMERIC, _duration_seconds)
+  )), '{}')
+  INTO _played
+  FROM jsonb_array_elements(_watched_ranges) r
+  WHERE GREATEST((r ->> 0)::NUMERIC, 0) < LEAST((r ->> 1)::NUMERIC, _duration_seconds);
+
+  _played := _played + COALESCE((
+    SELECT watched_ranges FROM public.resource_progress
+    WHERE user_id = auth.uid() AND resource_id = _resource_id
+  ), '{}');
+
+  SELECT LEAST(round(COALESCE(sum(upper(r) - lower(r)), 0) / _duration_seconds * 100, 2), 100)
+  INTO _percent
+  FROM unnest(_played) r;
+
+  INSERT INTO public.resource_progress AS p (
+    user_id, resource_id, position_seconds, duration_seconds, watched_ranges, percent_watched, completed, completed_at
+  )
+  VALUES (
+    auth.uid(), _resource_id, _position_seconds, _duration_seconds, _played, _percent, _percent >= 90,
+    CASE WHEN _percent >= 90 THEN now() END
+  )
+  ON CONFLICT (user_id, resource_id) DO UPDATE
+  SET position_seconds = EXCLUDED.position_seconds,
+      duration_seconds = EXCLUDED.duration_seconds,
+      watched_ranges = EXCLUDED.watched_ranges,
+      percent_watched = EXCLUDED.percent_watched,
+      completed = p.completed OR EXCLUDED.completed,
+      completed_at = COALESCE(p.completed_at, EXCLUDED.completed_at);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_resource_progress(UUID, NUMERIC, NUMERIC, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_resource_progress(UUID, NUMERIC, NUMERIC, JSONB) TO authenticated;
@@ -0,0 +1,37 @@
+-- Index names follow <table>_<column>_idx
+ALTER INDEX public.idx_categories_parent RENAME TO categories_parent_id_idx;
+
+-- Analytics scoped to a category, including resources_by_category, cover its
+-- subcategories too
+CREATE OR REPLACE FUNCTION public.analytics_resource_ids(
+  _uploaded_by UUID,
+  _category_id UUID,
+  _resource_id UUID DEFAULT NULL
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'analytics.view') THEN
+    RAISE EXCEPTION 'You are not allowed to view analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF _uploaded_by IS DISTINCT FROM auth.uid() AND
+     NOT public.has_permission(auth.uid(), 'analytics.view_all') AND
+     NOT (_resource_id IS NOT NULL AND public.can_view_resource_analytics(auth.uid(), _resource_id)) THEN
+    RAISE EXCEPTION 'You may only view analytics for your own resources' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id
+  FROM public.resources r
+  WHERE (_uploaded_by IS NULL OR r.uploaded_by = _uploaded_by)
+    AND (_category_id IS NULL OR r.category_id IN (SELECT public.category_subtree(_category_id)))
+    AND (_resource_id IS NULL OR r.id = _resource_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_resource_ids(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,38 @@
+-- Category names only need to be unique among their siblings, so "Introduction"
+-- can sit under both Maths and Physics. Top-level categories share the nil
+-- UUID as their parent here, since NULLs never conflict.
+ALTER TABLE public.categories DROP CONSTRAINT categories_name_key;
+
+CREATE UNIQUE INDEX categories_parent_id_name_idx
+  ON public.categories (COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'), lower(name));
+
+-- Also runs when subcategories move up on delete or into the target on merge
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NEW.parent_id IN (SELECT public.category_subtree(NEW.id)) THEN
+    RAISE EXCEPTION 'A category cannot be moved inside itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.categories
+    WHERE parent_id IS NOT DISTINCT FROM NEW.parent_id
+      AND lower(name) = lower(NEW.name)
+      AND id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'There is already a category named "%" at that level', NEW.name USING ERRCODE = '23505';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER check_category_parent ON public.categories;
+
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id, name ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_parent();
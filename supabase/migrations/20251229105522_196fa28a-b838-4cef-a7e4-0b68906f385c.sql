@@ -0,0 +1,74 @@
+-- A merge is one edit: it is logged once as category.merged instead of once
+-- per moved resource, and the moved resources keep their updated_at.
+-- merge_categories sets app.merging_categories for the duration of its
+-- resource update, and the per-row triggers skip while it is on.
+DROP TRIGGER update_resources_updated_at ON public.resources;
+
+CREATE TRIGGER update_resources_updated_at
+  BEFORE UPDATE OF title, description, category_id, class_id, file_path, file_type, file_size
+  ON public.resources
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_categories', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER audit_resource_update ON public.resources;
+
+CREATE TRIGGER audit_resource_update
+  AFTER UPDATE OF title, description, category_id, class_id ON public.resources
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_categories', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.audit_resource_update();
+
+CREATE OR REPLACE FUNCTION public.merge_categories(_source_id UUID, _target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source_name TEXT;
+  _target_name TEXT;
+  _moved INTEGER;
+  _subcategories INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'category.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage categories' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT name INTO _source_name FROM public.categories WHERE id = _source_id;
+  SELECT name INTO _target_name FROM public.categories WHERE id = _target_id;
+
+  IF _source_name IS NULL OR _target_name IS NULL THEN
+    RAISE EXCEPTION 'Category not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _target_id IN (SELECT public.category_subtree(_source_id)) THEN
+    RAISE EXCEPTION 'A category cannot be merged into itself or one of its subcategories' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.merging_categories', 'on', true);
+  UPDATE public.resources SET category_id = _target_id WHERE category_id = _source_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+  PERFORM set_config('app.merging_categories', 'off', true);
+
+  UPDATE public.categories SET parent_id = _target_id WHERE parent_id = _source_id;
+  GET DIAGNOSTICS _subcategories = ROW_COUNT;
+
+  DELETE FROM public.categories WHERE id = _source_id;
+
+  PERFORM public.log_audit_event(
+    'category.merged',
+    'category',
+    _target_id,
+    NULL,
+    jsonb_build_object(
+      'source', _source_name,
+      'target', _target_name,
+      'resources', _moved,
+      'subcategories', _subcategories
+    )
+  );
+
+  RETURN _moved;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Who opened a resource follows the analytics permissions like the rest of
+-- its analytics: the uploader with analytics.view, or any role granted
+-- analytics.view_all, rather than admins only.
+CREATE OR REPLACE FUNCTION public.resource_viewers(
+  _resource_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  view_count BIGINT,
+  first_viewed_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_view_resource_analytics(auth.uid(), _resource_id) THEN
+    RAISE EXCEPTION 'You are not allowed to see who opened this resource' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT v.user_id, p.full_name, count(*), min(v.viewed_at), max(v.viewed_at)
+  FROM public.resource_views v
+  LEFT JOIN public.profiles p ON p.user_id = v.user_id
+  WHERE v.resource_id = _resource_id
+    AND v.user_id IS NOT NULL
+    AND v.viewed_at >= _start
+    AND v.viewed_at < _end
+  GROUP BY v.user_id, p.full_name
+  ORDER BY max(v.viewed_at) DESC;
+END;
+$$;
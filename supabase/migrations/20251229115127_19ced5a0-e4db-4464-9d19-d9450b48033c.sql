@@ -0,0 +1,13 @@
+-- Uploads go into the uploader's own folder, which the update and delete
+-- policies and can_edit_resource rely on. Replacement files are uploaded
+-- into the replacing editor's folder too.
+DROP POLICY "Uploaders can upload learning resources" ON storage.objects;
+
+CREATE POLICY "Uploaders can upload learning resources"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'learning-resources' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT AND
+    public.has_permission(auth.uid(), 'resource.upload')
+  );
@@ -0,0 +1,70 @@
+-- Seeing and editing other people's courses is a permission like the rest,
+-- instead of being tied to the admin role. Admins hold it like every other.
+INSERT INTO public.permissions (key, description) VALUES
+  ('course.manage_any', 'View and edit courses created by anyone, published or not');
+
+CREATE OR REPLACE FUNCTION public.can_view_course(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.courses
+    WHERE id = _course_id
+      AND (
+        is_published OR
+        created_by = _user_id OR
+        public.has_permission(_user_id, 'course.manage_any')
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_course(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.courses
+    WHERE id = _course_id
+      AND (
+        created_by = _user_id OR
+        public.has_permission(_user_id, 'course.manage_any')
+      )
+  )
+$$;
+
+DROP POLICY "Users can view published or own courses" ON public.courses;
+DROP POLICY "Teachers can update own courses" ON public.courses;
+DROP POLICY "Teachers can delete own courses" ON public.courses;
+
+CREATE POLICY "Users can view published or own courses"
+  ON public.courses FOR SELECT
+  TO authenticated
+  USING (
+    is_published OR
+    auth.uid() = created_by OR
+    public.has_permission(auth.uid(), 'course.manage_any')
+  );
+
+CREATE POLICY "Creators and course managers can update courses"
+  ON public.courses FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    public.has_permission(auth.uid(), 'course.manage_any')
+  );
+
+CREATE POLICY "Creators and course managers can delete courses"
+  ON public.courses FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    public.has_permission(auth.uid(), 'course.manage_any')
+  );
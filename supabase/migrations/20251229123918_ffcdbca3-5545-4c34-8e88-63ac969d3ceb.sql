@@ -0,0 +1,43 @@
+-- Users can hold several roles, so approving a request adds the requested role
+-- and leaves the ones they already have, student included
+CREATE OR REPLACE FUNCTION public.review_role_request(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to review role requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.role_requests
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_note = NULLIF(trim(_note), '')
+  WHERE id = _request_id AND status = 'pending'
+  RETURNING * INTO _request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_request.user_id, _request.requested_role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN _approve THEN 'role_request.approved' ELSE 'role_request.rejected' END,
+    'role_request',
+    _request.id,
+    _request.user_id,
+    jsonb_build_object('role', _request.requested_role, 'note', _request.review_note)
+  );
+END;
+$$;